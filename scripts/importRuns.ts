@@ -0,0 +1,345 @@
+/**
+ * Import a folder of TCX, GPX, FIT and CSV files (also zipped or gzipped) for one user,
+ * with the same parsers, timezone handling and duplicate detection as the in-app importer.
+ *
+ *   npm run import-runs -- <directory> --user <user id> [--dry-run] [--time-zone <IANA zone>] [--csv-unit auto|mi|km]
+ *
+ * SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set to write runs. A dry run only
+ * parses the files, and checks them against the user's runs when credentials are set.
+ * Without --time-zone, runs are dated in the timezone from the user's profile.
+ */
+import { readdir, readFile } from 'node:fs/promises';
+import { basename, join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { CsvDistanceUnit, ImportBatchMerge, NewRunData, Run } from '../src/types';
+import {
+  describeSkippedSports,
+  ParsedImportEntry,
+  ParsedImportFile,
+  parseImportFile,
+  SUPPORTED_EXTENSIONS
+} from '../src/utils/importFiles';
+import { chunkNewRuns, getFileKey, stageParsedRuns, StagedRun } from '../src/utils/importStaging';
+import { ACTIVITY_FILES_BUCKET, getActivityFilePath } from '../src/utils/activityFiles';
+import { getMergeUpdates } from '../src/utils/duplicateDetection';
+
+interface CliOptions {
+  directory: string;
+  userId: string;
+  dryRun: boolean;
+  timeZone: string | null;
+  csvDistanceUnit: CsvDistanceUnit;
+}
+
+const USAGE = 'Usage: npm run import-runs -- <directory> --user <user id> [--dry-run] [--time-zone <IANA zone>] [--csv-unit auto|mi|km]';
+
+// Page size Supabase returns rows in
+const FETCH_PAGE_SIZE = 1000;
+
+const parseOptions = (): CliOptions => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      user: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      'time-zone': { type: 'string' },
+      'csv-unit': { type: 'string', default: 'auto' }
+    }
+  });
+
+  const csvUnit = values['csv-unit'] || 'auto';
+  if (positionals.length !== 1 || !values.user || !['auto', 'mi', 'km'].includes(csvUnit)) {
+    throw new Error(USAGE);
+  }
+
+  return {
+    directory: positionals[0],
+    userId: values.user,
+    dryRun: values['dry-run'] || false,
+    timeZone: values['time-zone'] || null,
+    csvDistanceUnit: csvUnit as CsvDistanceUnit
+  };
+};
+
+// Every supported file under a directory, in a stable order
+const findActivityFiles = async (directory: string): Promise<string[]> => {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const paths: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      paths.push(...await findActivityFiles(path));
+    } else if (SUPPORTED_EXTENSIONS.includes(entry.name.split('.').pop()?.toLowerCase() || '')) {
+      paths.push(path);
+    }
+  }
+
+  return paths;
+};
+
+// Parsed runs with the position of the file they came from, as files in different folders can share a name
+type CollectedEntry = ParsedImportEntry & { position: number };
+
+// Print the outcome of a file, or of each entry of an archive, and collect the parsed runs
+const collectResult = (fileName: string, result: ParsedImportFile, position: number, parsedFiles: CollectedEntry[]) => {
+  if (result.status === 'archive') {
+    result.entries.forEach(entry => collectResult(`${fileName}/${entry.fileName}`, entry.result, position, parsedFiles));
+    return;
+  }
+
+  if (result.status === 'unmapped') {
+    console.log(`  ${fileName}: skipped, CSV columns not recognized (map them in the app)`);
+    return;
+  }
+
+  if (result.status === 'parsed') {
+    const runCount = result.files.reduce((total, file) => total + file.runs.length, 0);
+    console.log(`  ${fileName}: ${runCount} runs`);
+    result.files.forEach(file => file.skippedSports && console.log(`    skipped ${describeSkippedSports(file.skippedSports)}, not runs`));
+    parsedFiles.push(...result.files.map(file => ({ ...file, position })));
+  } else {
+    console.log(`  ${fileName}: failed, ${result.message}`);
+  }
+
+  const rowErrors = result.status === 'parsed' ? result.csvInfo?.rowErrors : result.rowErrors;
+  rowErrors?.forEach(rowError => console.log(`    line ${rowError.line}: ${rowError.reason}`));
+};
+
+// All of the user's runs, for duplicate detection
+const fetchExistingRuns = async (client: SupabaseClient, userId: string): Promise<Run[]> => {
+  const runs: Run[] = [];
+
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await client
+      .from('runs')
+      .select('*')
+      .eq('user_id', userId)
+      .range(from, from + FETCH_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Could not fetch existing runs: ${error.message}`);
+    }
+
+    runs.push(...(data as Run[]));
+    if (data.length < FETCH_PAGE_SIZE) return runs;
+  }
+};
+
+// Timezone set in the user's profile, which the app dates imported runs in
+const fetchProfileTimeZone = async (client: SupabaseClient, userId: string): Promise<string | null> => {
+  const { data, error } = await client
+    .from('profiles')
+    .select('time_zone')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    throw new Error(`Could not fetch the user's profile: ${error.message}`);
+  }
+
+  return data?.time_zone || null;
+};
+
+// Insert a chunk of runs with their streams and laps in one transaction, as the app does
+const insertChunk = async (client: SupabaseClient, userId: string, chunk: NewRunData[]): Promise<string[]> => {
+  const { data, error } = await client.rpc('import_runs', {
+    items: chunk.map(({ run, stream, laps }) => ({ run, stream: stream || null, laps: laps || null })),
+    for_user: userId
+  });
+
+  if (error) {
+    throw new Error(`Could not insert runs: ${error.message}`);
+  }
+
+  return (data as Run[]).map(run => run.id);
+};
+
+// Fill in what the matched run is missing, like merging in the app's import preview
+const mergeRun = async (
+  client: SupabaseClient,
+  userId: string,
+  row: StagedRun,
+  sourcePath?: string
+): Promise<ImportBatchMerge> => {
+  const { stream, laps, ...run } = row.run;
+  const match = row.duplicate.match!;
+
+  const updates = getMergeUpdates(match, { ...run, source_file: row.fileName, source_path: sourcePath });
+  if (Object.keys(updates).length > 0) {
+    const { error } = await client.from('runs').update(updates).eq('id', match.id);
+    if (error) throw new Error(`Could not update run from ${match.date}: ${error.message}`);
+  }
+
+  let addedStream = false;
+  if (stream && stream.length > 0) {
+    const { count } = await client.from('run_streams').select('run_id', { count: 'exact', head: true }).eq('run_id', match.id);
+    if (!count) {
+      const { error } = await client
+        .from('run_streams')
+        .insert([{ run_id: match.id, user_id: userId, points: stream, point_count: stream.length }]);
+      if (error) throw new Error(`Could not add the track to run from ${match.date}: ${error.message}`);
+      addedStream = true;
+    }
+  }
+
+  let addedLaps = false;
+  if (laps && laps.length > 0) {
+    const { count } = await client.from('run_laps').select('run_id', { count: 'exact', head: true }).eq('run_id', match.id);
+    if (!count) {
+      const { error } = await client
+        .from('run_laps')
+        .insert(laps.map((lap, index) => ({ ...lap, run_id: match.id, user_id: userId, lap_index: index })));
+      if (error) throw new Error(`Could not add laps to run from ${match.date}: ${error.message}`);
+      addedLaps = true;
+    }
+  }
+
+  return { run_id: match.id, fields: updates, added_stream: addedStream, added_laps: addedLaps };
+};
+
+// Store the original of each track file with runs to import, keyed by getFileKey
+const uploadOriginals = async (
+  client: SupabaseClient,
+  userId: string,
+  parsedFiles: CollectedEntry[],
+  rows: StagedRun[]
+): Promise<Record<string, string>> => {
+  const sourcePaths: Record<string, string> = {};
+
+  for (const { fileName, original, position } of parsedFiles) {
+    const key = getFileKey(position, fileName);
+    if (!original || !rows.some(row => getFileKey(row.position, row.fileName) === key)) continue;
+
+    const path = getActivityFilePath(userId, fileName);
+    const { error } = await client.storage.from(ACTIVITY_FILES_BUCKET).upload(path, original);
+    if (error) {
+      console.warn(`Could not store original of ${fileName}: ${error.message}`);
+      continue;
+    }
+    sourcePaths[key] = path;
+  }
+
+  return sourcePaths;
+};
+
+const main = async () => {
+  const options = parseOptions();
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!options.dryRun && (!supabaseUrl || !serviceRoleKey)) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables');
+  }
+
+  const client = supabaseUrl && serviceRoleKey
+    ? createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+    : null;
+
+  // Runs are dated in the timezone from the user's profile unless one is given
+  const timeZone = options.timeZone ?? (client ? await fetchProfileTimeZone(client, options.userId) : null);
+  if (!timeZone) {
+    console.log('No timezone given or set in the profile, runs are dated in this machine\'s timezone');
+  }
+
+  // Parse every file with the app's own routing (archives, gzip, CSV profiles)
+  const paths = await findActivityFiles(options.directory);
+  console.log(`Parsing ${paths.length} files in ${options.directory}`);
+
+  const parsedFiles: CollectedEntry[] = [];
+  for (const [position, path] of paths.entries()) {
+    // Files are named as the app names a selected file, so both give a run the same fingerprint
+    const file = new File([await readFile(path)], basename(path));
+    const result = await parseImportFile(file, {
+      csvDistanceUnit: options.csvDistanceUnit,
+      appleRouteFiles: [],
+      timeZone
+    });
+    collectResult(relative(options.directory, path), result, position, parsedFiles);
+  }
+
+  if (!client) {
+    console.log('No Supabase credentials set, runs are not checked against existing runs');
+  }
+
+  // Runs already imported, or repeated in the folder, are left out; runs matching one from another source are merged
+  const existingRuns = client ? await fetchExistingRuns(client, options.userId) : [];
+  const stagedRuns = stageParsedRuns(parsedFiles, existingRuns);
+  const newRows = stagedRuns.filter(row => row.included && row.duplicate.status === 'new');
+  const mergeRows = stagedRuns.filter(row => row.included && row.duplicate.status === 'merged' && row.duplicate.match);
+  const skippedCount = stagedRuns.length - newRows.length - mergeRows.length;
+
+  console.log(`${newRows.length} new runs, ${mergeRows.length} matching existing runs, ${skippedCount} already imported or repeated`);
+
+  if (options.dryRun || !client || newRows.length + mergeRows.length === 0) {
+    if (options.dryRun) {
+      newRows.forEach(row => console.log(`  ${row.run.date}  ${row.run.distance} mi  ${row.run.duration} min  ${row.fileName}`));
+      mergeRows.forEach(row => console.log(`  ${row.run.date}  ${row.fileName}, merged into the existing run`));
+    }
+    return;
+  }
+
+  // Originals are kept for new runs, and for matched runs that have none yet
+  const sourcePaths = await uploadOriginals(
+    client,
+    options.userId,
+    parsedFiles,
+    [...newRows, ...mergeRows.filter(row => !row.duplicate.match?.source_path)]
+  );
+  const getSourcePath = (row: StagedRun) => sourcePaths[getFileKey(row.position, row.fileName)];
+
+  const mergedRuns: ImportBatchMerge[] = [];
+  let failedCount = 0;
+  for (const row of mergeRows) {
+    try {
+      mergedRuns.push(await mergeRun(client, options.userId, row, getSourcePath(row)));
+    } catch (error) {
+      failedCount++;
+      console.error(error instanceof Error ? error.message : error);
+    }
+  }
+
+  const items: NewRunData[] = newRows.map(row => {
+    const { stream, laps, ...run } = row.run;
+    return { run: { ...run, source_file: row.fileName, source_path: getSourcePath(row) }, stream, laps };
+  });
+
+  const runIds: string[] = [];
+  for (const chunk of chunkNewRuns(items)) {
+    try {
+      runIds.push(...await insertChunk(client, options.userId, chunk));
+    } catch (error) {
+      failedCount += chunk.length;
+      console.error(error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Record the batch so it can be rolled back from the import history in the app
+  if (runIds.length > 0 || mergedRuns.length > 0) {
+    const fileNames = Array.from(new Set([...newRows, ...mergeRows].map(row => row.fileName)));
+    const { error } = await client.from('import_batches').insert([{
+      user_id: options.userId,
+      file_names: fileNames,
+      parser: Array.from(new Set(fileNames.map(name => name.toLowerCase().replace(/\.gz$/, '').split('.').pop()))).join(', '),
+      run_count: runIds.length,
+      merged_count: mergedRuns.length,
+      skipped_count: skippedCount,
+      failed_count: failedCount,
+      run_ids: runIds,
+      merged_runs: mergedRuns
+    }]);
+
+    if (error) {
+      console.warn(`Could not record import batch: ${error.message}`);
+    }
+  }
+
+  console.log(`Imported ${runIds.length} runs, merged ${mergedRuns.length}${failedCount > 0 ? `, ${failedCount} failed` : ''}`);
+  if (failedCount > 0) process.exitCode = 1;
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Sun as Run, Medal, Clock, Zap } from 'lucide-react';
+import { Sun as Run, Medal, Clock, Zap, Mountain } from 'lucide-react';
 import Card from '../common/Card';
 import { useAppContext } from '../../context/AppContext';
 import { 
@@ -7,6 +7,8 @@ import {
   calculateAveragePace, 
   getLongestRun, 
   formatPace,
+  formatElevation,
+  calculateTotalElevationGain,
   getRunsByPeriod
 } from '../../utils/calculations';
 
@@ -30,6 +32,7 @@ const StatCard: React.FC<StatCardProps> = ({
     green: 'text-green-700 dark:text-green-300',
     purple: 'text-purple-700 dark:text-purple-300',
     orange: 'text-orange-700 dark:text-orange-300',
+    teal: 'text-teal-700 dark:text-teal-300',
   } as { [key: string]: string };
 
   return (
@@ -51,7 +54,7 @@ const StatCard: React.FC<StatCardProps> = ({
 };
 
 const DashboardStats: React.FC = () => {
-  const { runs } = useAppContext();
+  const { runs, paceTimeBasis } = useAppContext();
   
   // Get weekly and all-time runs
   const weeklyRuns = getRunsByPeriod(runs, 'week');
@@ -60,8 +63,10 @@ const DashboardStats: React.FC = () => {
   // Calculate stats
   const totalDistance = calculateTotalDistance(allRuns);
   const weeklyDistance = calculateTotalDistance(weeklyRuns);
-  const averagePace = calculateAveragePace(allRuns);
+  const averagePace = calculateAveragePace(allRuns, paceTimeBasis);
   const longestRun = getLongestRun(allRuns);
+  const totalElevationGain = calculateTotalElevationGain(allRuns);
+  const weeklyElevationGain = calculateTotalElevationGain(weeklyRuns);
   
   // Prepare stat values
   const totalMiles = `${totalDistance.toFixed(1)} mi`;
@@ -69,8 +74,13 @@ const DashboardStats: React.FC = () => {
   const avgPaceFormatted = formatPace(averagePace);
   const longestRunDistance = longestRun ? `${longestRun.distance.toFixed(1)} mi` : '0 mi';
 
+  // Climb rate only over runs that have elevation data, so manual entries don't dilute it
+  const elevationRuns = allRuns.filter(run => run.elevation_gain != null);
+  const elevationDistance = calculateTotalDistance(elevationRuns);
+  const climbPerMile = elevationDistance > 0 ? Math.round(totalElevationGain / elevationDistance) : 0;
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
       <StatCard
         title="Total Distance"
         value={totalMiles}
@@ -99,6 +109,13 @@ const DashboardStats: React.FC = () => {
         description={longestRun ? `on ${longestRun.date}` : 'No runs recorded'}
         color="orange"
       />
+      <StatCard
+        title="Elevation Gain"
+        value={formatElevation(totalElevationGain)}
+        icon={<Mountain size={24} />}
+        description={`${formatElevation(weeklyElevationGain)} this week · ${climbPerMile} ft/mi`}
+        color="teal"
+      />
     </div>
   );
 };
@@ -1,10 +1,10 @@
 import React from 'react';
 import Card from '../common/Card';
 import { useAppContext } from '../../context/AppContext';
-import { formatDate, formatPace, formatDuration } from '../../utils/calculations';
+import { formatDate, formatPace, formatDuration, formatElevation, formatHeartRate, getRunDuration, getRunPace } from '../../utils/calculations';
 
 const RecentRunsList: React.FC = () => {
-  const { runs } = useAppContext();
+  const { runs, paceTimeBasis } = useAppContext();
   
   // Get only the 5 most recent runs
   const recentRuns = runs.slice(0, 5);
@@ -34,6 +34,12 @@ const RecentRunsList: React.FC = () => {
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                 Pace
               </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Elevation
+              </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Avg HR
+              </th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                 Feeling
               </th>
@@ -53,10 +59,16 @@ const RecentRunsList: React.FC = () => {
                     {run.distance} mi
                   </td>
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
-                    {formatDuration(run.duration)}
+                    {formatDuration(getRunDuration(run, paceTimeBasis))}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                    {formatPace(getRunPace(run, paceTimeBasis))} /mi
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                    {run.elevation_gain != null ? `↑ ${formatElevation(run.elevation_gain)}` : '—'}
                   </td>
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
-                    {formatPace(run.pace)} /mi
+                    {formatHeartRate(run.avg_heart_rate)}
                   </td>
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
                     {getFeelingEmoji(run.feeling_rating)}
@@ -68,7 +80,7 @@ const RecentRunsList: React.FC = () => {
               ))
             ) : (
               <tr>
-                <td colSpan={6} className="px-4 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 text-center">
+                <td colSpan={8} className="px-4 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 text-center">
                   No runs recorded yet. Start logging your runs!
                 </td>
               </tr>
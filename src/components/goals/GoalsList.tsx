@@ -8,7 +8,7 @@ import { Goal } from '../../types';
 import { checkGoalCompletion, getGoalProgressPercentage } from '../../utils/goalCompletion';
 
 const GoalsList: React.FC = () => {
-  const { goals, runs, deleteGoal, toggleGoalCompletion } = useAppContext();
+  const { goals, runs, paceTimeBasis, deleteGoal, toggleGoalCompletion } = useAppContext();
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
   
   // Sort goals by completion status and target date
@@ -20,8 +20,8 @@ const GoalsList: React.FC = () => {
   });
   
   const getGoalStatus = (goal: Goal): React.ReactNode => {
-    const progress = checkGoalCompletion(goal, runs);
-    const progressPercentage = getGoalProgressPercentage(goal, runs);
+    const progress = checkGoalCompletion(goal, runs, paceTimeBasis);
+    const progressPercentage = getGoalProgressPercentage(goal, runs, paceTimeBasis);
     
     if (goal.completed) {
       return (
@@ -122,7 +122,7 @@ const GoalsList: React.FC = () => {
                   border-l-4 transition-all
                   ${goal.completed 
                     ? 'border-l-green-500' 
-                    : checkGoalCompletion(goal, runs).isAchieved
+                    : checkGoalCompletion(goal, runs, paceTimeBasis).isAchieved
                     ? 'border-l-green-400'
                     : 'border-l-blue-500'}
                 `}
@@ -0,0 +1,287 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, Save, Trash2 } from 'lucide-react';
+import Button from '../common/Button';
+import Select from '../common/Select';
+import Input from '../common/Input';
+import { useAppContext } from '../../context/AppContext';
+import { CsvColumnMapping, CsvDistanceUnit, CsvDurationUnit, CsvPaceUnit, CsvRunField } from '../../types';
+import { detectCSVMapping, readCSVPreview } from '../../utils/garminParser';
+
+interface CsvMappingWizardProps {
+  fileName: string;
+  content: string;
+  remainingCount: number; // CSV files still waiting for a mapping after this one
+  onApply: (mapping: CsvColumnMapping) => void;
+  onSkip: () => void;
+}
+
+const FIELDS: { field: CsvRunField; label: string; required?: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'distance', label: 'Distance', required: true },
+  { field: 'duration', label: 'Duration', required: true },
+  { field: 'pace', label: 'Pace' },
+  { field: 'route', label: 'Route' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'feeling_rating', label: 'Feeling (1-5)' },
+  { field: 'activity_type', label: 'Activity Type' }
+];
+
+const DATE_FORMATS = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'yyyy-MM-dd', label: '2024-05-31' },
+  { value: 'M/d/yyyy', label: '5/31/2024' },
+  { value: 'd/M/yyyy', label: '31/5/2024' },
+  { value: 'dd.MM.yyyy', label: '31.05.2024' },
+  { value: 'yyyy-MM-dd HH:mm:ss', label: '2024-05-31 07:30:00' },
+  { value: 'MMM d, yyyy', label: 'May 31, 2024' }
+];
+
+const DISTANCE_UNITS: { value: CsvDistanceUnit; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'mi', label: 'Miles' },
+  { value: 'km', label: 'Kilometers' },
+  { value: 'm', label: 'Meters' }
+];
+
+const PACE_UNITS: { value: CsvPaceUnit; label: string }[] = [
+  { value: 'auto', label: 'Same as distance' },
+  { value: 'mi', label: 'min/mi' },
+  { value: 'km', label: 'min/km' }
+];
+
+const DURATION_UNITS: { value: CsvDurationUnit; label: string }[] = [
+  { value: 'auto', label: 'h:mm:ss or minutes' },
+  { value: 'min', label: 'Minutes' },
+  { value: 's', label: 'Seconds' },
+  { value: 'ms', label: 'Milliseconds' }
+];
+
+const CsvMappingWizard: React.FC<CsvMappingWizardProps> = ({
+  fileName,
+  content,
+  remainingCount,
+  onApply,
+  onSkip
+}) => {
+  const { csvMappingPresets, saveCsvMappingPreset, deleteCsvMappingPreset } = useAppContext();
+  const preview = useMemo(() => readCSVPreview(content), [content]);
+  const headers = useMemo(() => preview?.headers || [], [preview]);
+
+  // Start from a saved preset whose columns all exist in this file, else from the detected columns
+  const [presetId, setPresetId] = useState(() => {
+    const match = csvMappingPresets.find(preset =>
+      Object.values(preset.mapping.columns).every(header => header && headers.includes(header))
+    );
+    return match?.id || '';
+  });
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => {
+    const preset = csvMappingPresets.find(p => p.id === presetId);
+    return preset ? preset.mapping : detectCSVMapping(headers);
+  });
+  const [presetName, setPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const missingFields = FIELDS.filter(({ field, required }) => required && !mapping.columns[field]);
+
+  const handlePresetChange = (id: string) => {
+    setPresetId(id);
+    const preset = csvMappingPresets.find(p => p.id === id);
+    if (!preset) {
+      setMapping(detectCSVMapping(headers));
+      return;
+    }
+
+    // Drop columns this file doesn't have so they show as unmapped
+    const columns: CsvColumnMapping['columns'] = {};
+    (Object.keys(preset.mapping.columns) as CsvRunField[]).forEach(field => {
+      const header = preset.mapping.columns[field];
+      if (header && headers.includes(header)) columns[field] = header;
+    });
+    setMapping({ ...preset.mapping, columns });
+    setPresetName(preset.name);
+  };
+
+  const handleColumnChange = (field: CsvRunField, header: string) => {
+    setMapping(prev => ({ ...prev, columns: { ...prev.columns, [field]: header || undefined } }));
+  };
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) return;
+
+    setIsSaving(true);
+    const saved = await saveCsvMappingPreset(presetName.trim(), mapping);
+    if (saved) setPresetId(saved.id);
+    setIsSaving(false);
+  };
+
+  const handleDeletePreset = async () => {
+    await deleteCsvMappingPreset(presetId);
+    setPresetId('');
+    setPresetName('');
+  };
+
+  const getFieldLabel = (header: string) => {
+    const match = FIELDS.find(({ field }) => mapping.columns[field] === header);
+    return match?.label;
+  };
+
+  const columnOptions = [
+    { value: '', label: 'Not mapped' },
+    ...headers.map(header => ({ value: header, label: header }))
+  ];
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-medium">Map CSV Columns</h3>
+        {remainingCount > 0 && (
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {remainingCount} more files to map
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        We couldn't read the columns in <span className="font-medium">{fileName}</span>. Choose which column holds each run field.
+      </p>
+
+      <div className="flex items-end space-x-2">
+        <Select
+          label="Preset"
+          value={presetId}
+          onChange={handlePresetChange}
+          options={[
+            { value: '', label: 'Detected columns' },
+            ...csvMappingPresets.map(preset => ({ value: preset.id, label: preset.name }))
+          ]}
+          fullWidth
+        />
+        {presetId && (
+          <Button
+            variant="outline"
+            icon={<Trash2 size={16} />}
+            onClick={handleDeletePreset}
+            className="mb-4"
+          >
+            Delete
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+        {FIELDS.map(({ field, label, required }) => (
+          <Select
+            key={field}
+            id={`csv-column-${field}`}
+            label={required ? `${label} *` : label}
+            value={mapping.columns[field] || ''}
+            onChange={(value) => handleColumnChange(field, value)}
+            options={columnOptions}
+            fullWidth
+          />
+        ))}
+        <Select
+          label="Date Format"
+          value={mapping.date_format}
+          onChange={(value) => setMapping(prev => ({ ...prev, date_format: value }))}
+          options={DATE_FORMATS}
+          fullWidth
+        />
+        <Select
+          label="Distance Unit"
+          value={mapping.distance_unit}
+          onChange={(value) => setMapping(prev => ({ ...prev, distance_unit: value as CsvDistanceUnit }))}
+          options={DISTANCE_UNITS}
+          fullWidth
+        />
+        <Select
+          label="Pace Unit"
+          value={mapping.pace_unit || 'auto'}
+          onChange={(value) => setMapping(prev => ({ ...prev, pace_unit: value as CsvPaceUnit }))}
+          options={PACE_UNITS}
+          fullWidth
+        />
+        <Select
+          label="Duration Unit"
+          value={mapping.duration_unit || 'auto'}
+          onChange={(value) => setMapping(prev => ({ ...prev, duration_unit: value as CsvDurationUnit }))}
+          options={DURATION_UNITS}
+          fullWidth
+        />
+      </div>
+
+      {preview && (
+        <div className="overflow-x-auto max-h-64 overflow-y-auto -mx-5 mb-4">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+              <tr>
+                {headers.map((header, index) => (
+                  <th
+                    key={index}
+                    className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap"
+                  >
+                    {header}
+                    {getFieldLabel(header) && (
+                      <span className="block normal-case text-blue-600 dark:text-blue-400">
+                        → {getFieldLabel(header)}
+                      </span>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {preview.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {headers.map((_, index) => (
+                    <td key={index} className="px-3 py-2 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                      {row[index]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-end space-x-2">
+        <Input
+          label="Save mapping as preset"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="e.g. My watch export"
+          fullWidth
+        />
+        <Button
+          variant="outline"
+          icon={<Save size={16} />}
+          onClick={handleSavePreset}
+          disabled={!presetName.trim() || isSaving}
+          className="mb-4"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-end space-x-3 mt-2">
+        {missingFields.length > 0 && (
+          <span className="text-sm text-red-600 dark:text-red-400">
+            Map {missingFields.map(f => f.label).join(', ')} to continue
+          </span>
+        )}
+        <Button variant="outline" onClick={onSkip}>
+          Skip File
+        </Button>
+        <Button
+          icon={<ArrowRight size={16} />}
+          onClick={() => onApply(mapping)}
+          disabled={missingFields.length > 0}
+        >
+          Continue
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvMappingWizard;
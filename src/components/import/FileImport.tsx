@@ -1,28 +1,168 @@
 import React, { useState, useRef } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle, X } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, X, History } from 'lucide-react';
 import Card from '../common/Card';
 import Button from '../common/Button';
+import Select from '../common/Select';
 import { useAppContext } from '../../context/AppContext';
-import { parseGarminFile, parseCSVFile } from '../../utils/garminParser';
+import ImportPreview from './ImportPreview';
+import ImportHistory from './ImportHistory';
+import CsvMappingWizard from './CsvMappingWizard';
+import { ParsedRunData, CSVUnits } from '../../utils/garminParser';
+import { CSVRowError } from '../../utils/csvReader';
+import { isAppleHealthRouteFile } from '../../utils/appleHealthArchive';
+import { CsvFileInfo, describeSkippedSports, ParsedImportFile } from '../../utils/importFiles';
+import { ImportWorkerJob, ImportWorkerRequest, ImportWorkerResponse } from '../../workers/importWorker';
+import { getMergeUpdates, DuplicateStatus } from '../../utils/duplicateDetection';
+import {
+  StagedRun,
+  stageParsedRuns,
+  classifyStagedRuns,
+  getFileKey,
+  updateStagedRun
+} from '../../utils/importStaging';
+import { formatDate } from '../../utils/calculations';
+import { CsvColumnMapping, CsvDistanceUnit, ImportBatchMerge } from '../../types';
 
 interface FileImportProps {
   onClose: () => void;
 }
 
+// Excluded records were unticked in the preview, rather than skipped as duplicates
+type ImportRecordStatus = DuplicateStatus | 'excluded';
+
+interface ImportRecord {
+  run: ParsedRunData;
+  status: ImportRecordStatus;
+  matchId?: string; // existing run this record matched
+  runId?: string; // run created for this record
+  merge?: ImportBatchMerge; // what merging this record added to the matched run
+}
+
+interface PendingCsvFile {
+  fileName: string;
+  content: string;
+  position: number; // of the selected file it came from
+}
+
+interface FileProgress {
+  key: string; // getFileKey of the selected file
+  fileName: string;
+  progress: number; // fraction parsed, 0-1
+  status: 'queued' | 'parsing' | 'done' | 'cancelled';
+}
+
 interface ImportResult {
   success: boolean;
   fileName: string;
   message: string;
-  runData?: any;
-  runCount?: number;
+  profile?: string; // CSV layout the file was read with
+  records?: ImportRecord[];
+  rowErrors?: CSVRowError[]; // CSV rows skipped while reading the file
 }
 
+const UNIT_NAMES: Record<CSVUnits['distance'], string> = {
+  mi: 'miles',
+  km: 'kilometers',
+  m: 'meters'
+};
+
+const CSV_UNIT_OPTIONS: { value: CsvDistanceUnit; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'mi', label: 'Miles' },
+  { value: 'km', label: 'Kilometers' }
+];
+
+const STATUS_LABELS: Record<ImportRecordStatus, string> = {
+  new: 'New',
+  merged: 'Merged',
+  skipped: 'Skipped',
+  excluded: 'Not selected'
+};
+
+const STATUS_CLASSES: Record<ImportRecordStatus, string> = {
+  new: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200',
+  merged: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
+  skipped: 'bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200',
+  excluded: 'bg-gray-100 dark:bg-gray-900 text-gray-500 dark:text-gray-400'
+};
+
+// Parser name recorded in the import history, taken from the file extension
+const getParserName = (fileName: string): string => {
+  return fileName.toLowerCase().replace(/\.gz$/, '').split('.').pop() || 'unknown';
+};
+
+const getRowFileKey = (row: StagedRun): string => getFileKey(row.position, row.fileName);
+
+const countRecords = (records: ImportRecord[], status: ImportRecordStatus): number => {
+  return records.filter(record => record.status === status).length;
+};
+
+const summarizeRecords = (records: ImportRecord[], errorCount: number): string => {
+  const parts = [`Imported ${countRecords(records, 'new')} new runs`];
+
+  const mergedCount = countRecords(records, 'merged');
+  if (mergedCount > 0) parts.push(`merged ${mergedCount} into existing runs`);
+
+  const skippedCount = countRecords(records, 'skipped');
+  if (skippedCount > 0) parts.push(`skipped ${skippedCount} duplicates`);
+
+  const excludedCount = countRecords(records, 'excluded');
+  if (excludedCount > 0) parts.push(`left out ${excludedCount} not selected`);
+
+  if (errorCount > 0) parts.push(`${errorCount} failed`);
+
+  return parts.join(', ');
+};
+
+// Number of skipped rows listed under a result before collapsing the rest
+const MAX_LISTED_ROW_ERRORS = 10;
+
+// Explain how CSV distances and paces were converted to miles
+const describeUnits = (units: CSVUnits): string | null => {
+  if (units.distance === 'mi' && units.pace === 'mi') {
+    return units.source === 'default' ? 'No distance unit found in file, read as miles' : null;
+  }
+
+  const origin = units.source === 'header'
+    ? ' (unit from column headers)'
+    : units.source === 'values' ? ' (unit found in values)' : '';
+  const parts: string[] = [];
+  if (units.distance !== 'mi') parts.push(`distances from ${UNIT_NAMES[units.distance]} to miles`);
+  if (units.pace !== 'mi') parts.push('paces from min/km to min/mi');
+
+  return `Converted ${parts.join(' and ')}${origin}`;
+};
+
 const FileImport: React.FC<FileImportProps> = ({ onClose }) => {
-  const { addRun } = useAppContext();
+  const {
+    runs,
+    addRuns,
+    updateRun,
+    fetchRunStream,
+    saveRunStream,
+    fetchRunLaps,
+    saveRunLaps,
+    uploadActivityFile,
+    addImportBatch,
+    timeZone
+  } = useAppContext();
+  const [view, setView] = useState<'upload' | 'history'>('upload');
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [stagedRuns, setStagedRuns] = useState<StagedRun[]>([]);
+  const [pendingCsvFiles, setPendingCsvFiles] = useState<PendingCsvFile[]>([]);
+  const [csvFiles, setCsvFiles] = useState<Record<string, CsvFileInfo>>({});
+  const [originalFiles, setOriginalFiles] = useState<Record<string, File>>({});
+  const [skippedSports, setSkippedSports] = useState<Record<string, string[]>>({});
+  const [csvDistanceUnit, setCsvDistanceUnit] = useState<CsvDistanceUnit>('auto');
   const [results, setResults] = useState<ImportResult[]>([]);
+  const [fileProgress, setFileProgress] = useState<FileProgress[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const jobIdRef = useRef(0);
+  const activeJobRef = useRef<{ key: string; resolve: (result: ParsedImportFile | null) => void } | null>(null);
+  const cancelledFilesRef = useRef<Set<string>>(new Set());
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -46,242 +186,635 @@ const FileImport: React.FC<FileImportProps> = ({ onClose }) => {
     processFiles(files);
   };
 
+  const updateFileProgress = (key: string, updates: Partial<FileProgress>) => {
+    setFileProgress(prev => prev.map(file => file.key === key ? { ...file, ...updates } : file));
+  };
+
+  // Parse a file in the import worker; resolves null when the file is cancelled
+  const parseInWorker = (key: string, job: ImportWorkerJob): Promise<ParsedImportFile | null> => {
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../../workers/importWorker.ts', import.meta.url), { type: 'module' });
+    }
+
+    const worker = workerRef.current;
+    const id = ++jobIdRef.current;
+
+    return new Promise(resolve => {
+      activeJobRef.current = { key, resolve };
+
+      worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+        if (event.data.id !== id) return;
+
+        if (event.data.type === 'progress') {
+          updateFileProgress(key, { progress: event.data.progress });
+          return;
+        }
+
+        activeJobRef.current = null;
+        resolve(event.data.result);
+      };
+
+      worker.onerror = (event) => {
+        activeJobRef.current = null;
+        resolve({ status: 'failed', message: `Error processing file: ${event.message || 'Unknown error'}` });
+      };
+
+      const request: ImportWorkerRequest = { ...job, id };
+      worker.postMessage(request);
+    });
+  };
+
+  const cancelFile = (key: string) => {
+    cancelledFilesRef.current.add(key);
+    updateFileProgress(key, { status: 'cancelled' });
+
+    // Stop the worker mid-file; a fresh one is started for the next file
+    if (activeJobRef.current?.key === key) {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      activeJobRef.current.resolve(null);
+      activeJobRef.current = null;
+    }
+  };
+
+  const cancelAllFiles = () => {
+    fileProgress
+      .filter(file => file.status === 'queued' || file.status === 'parsing')
+      .forEach(file => cancelFile(file.key));
+  };
+
+  const handleClose = () => {
+    cancelAllFiles();
+    onClose();
+  };
+
+  // Parse the dropped files into staged rows without writing anything
   const processFiles = async (files: File[]) => {
     setIsProcessing(true);
     setResults([]);
+    setStagedRuns([]);
+    setPendingCsvFiles([]);
 
     const newResults: ImportResult[] = [];
+    const parsedFiles: { fileName: string; runs: ParsedRunData[]; position: number }[] = [];
+    const unmappedCsvFiles: PendingCsvFile[] = [];
+    // Keyed by getFileKey, as selected files and archive entries can share a name
+    const csvFileInfo: Record<string, CsvFileInfo> = {};
+    const originals: Record<string, File> = {};
+    const skippedByFile: Record<string, string[]> = {};
 
-    for (const file of files) {
-      try {
-        const fileExtension = file.name.split('.').pop()?.toLowerCase();
-        
-        if (!['tcx', 'gpx', 'csv'].includes(fileExtension || '')) {
-          newResults.push({
-            success: false,
-            fileName: file.name,
-            message: 'Unsupported file format. Please use TCX, GPX, or CSV files.'
-          });
-          continue;
-        }
-
-        const fileContent = await readFileContent(file);
+    // Workout-route GPX files selected alongside an Apple Health export.xml belong to that export
+    const hasAppleHealthExport = files.some(file => file.name.toLowerCase() === 'export.xml');
+    const appleRouteFiles = hasAppleHealthExport ? files.filter(file => isAppleHealthRouteFile(file.name)) : [];
+    const queuedFiles = files.filter(file => !appleRouteFiles.includes(file));
 
-        if (fileExtension === 'csv') {
-          // Handle CSV files (multiple runs)
-          const runs = await parseCSVFile(fileContent);
-          
-          if (runs && runs.length > 0) {
-            let successCount = 0;
-            let errorCount = 0;
-
-            for (const runData of runs) {
-              try {
-                await addRun(runData);
-                successCount++;
-              } catch (error) {
-                errorCount++;
-                console.error('Error adding run:', error);
-              }
-            }
-
-            newResults.push({
-              success: successCount > 0,
-              fileName: file.name,
-              message: `Imported ${successCount} runs successfully${errorCount > 0 ? `, ${errorCount} failed` : ''}`,
-              runCount: successCount
-            });
-          } else {
-            newResults.push({
-              success: false,
-              fileName: file.name,
-              message: 'No valid run data found in CSV file.'
-            });
-          }
-        } else {
-          // Handle TCX/GPX files (single run)
-          const runData = await parseGarminFile(fileContent, fileExtension || '');
-
-          if (runData) {
-            await addRun(runData);
-            newResults.push({
-              success: true,
-              fileName: file.name,
-              message: `Successfully imported run: ${runData.distance} miles on ${runData.date}`,
-              runData
-            });
+    // Route a parsed file, or each entry of an archive, into staged runs, column mapping or a failed result
+    const collectResult = (fileName: string, result: ParsedImportFile, position: number) => {
+      if (result.status === 'archive') {
+        result.entries.forEach(entry => collectResult(entry.fileName, entry.result, position));
+      } else if (result.status === 'failed') {
+        newResults.push({ success: false, fileName, message: result.message, rowErrors: result.rowErrors });
+      } else if (result.status === 'unmapped') {
+        // Let the user map the columns when the headers aren't recognized
+        unmappedCsvFiles.push({ fileName, content: result.content, position });
+      } else {
+        // Entries of one archive can share track names
+        for (const parsed of result.files) {
+          const existing = parsedFiles.find(f => f.fileName === parsed.fileName && f.position === position);
+          if (existing) {
+            existing.runs.push(...parsed.runs);
           } else {
-            newResults.push({
-              success: false,
-              fileName: file.name,
-              message: 'Could not parse run data from file.'
-            });
+            parsedFiles.push({ fileName: parsed.fileName, runs: parsed.runs, position });
           }
+          const key = getFileKey(position, parsed.fileName);
+          if (result.csvInfo) csvFileInfo[key] = result.csvInfo;
+          if (parsed.original) originals[key] = parsed.original;
+          if (parsed.skippedSports) skippedByFile[key] = parsed.skippedSports;
         }
-      } catch (error) {
-        newResults.push({
-          success: false,
-          fileName: file.name,
-          message: `Error processing file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    };
+
+    cancelledFilesRef.current = new Set();
+    setFileProgress(queuedFiles.map((file, position) => ({
+      key: getFileKey(position, file.name),
+      fileName: file.name,
+      progress: 0,
+      status: 'queued'
+    })));
+
+    for (const [position, file] of queuedFiles.entries()) {
+      const key = getFileKey(position, file.name);
+      let result: ParsedImportFile | null = null;
+      if (!cancelledFilesRef.current.has(key)) {
+        updateFileProgress(key, { status: 'parsing' });
+        result = await parseInWorker(key, {
+          type: 'file',
+          file,
+          options: { csvDistanceUnit, appleRouteFiles, timeZone }
         });
       }
+
+      if (!result) {
+        newResults.push({ success: false, fileName: file.name, message: 'Cancelled.' });
+        continue;
+      }
+
+      updateFileProgress(key, { status: 'done', progress: 1 });
+      collectResult(file.name, result, position);
     }
 
+    workerRef.current?.terminate();
+    workerRef.current = null;
+
+    setStagedRuns(stageParsedRuns(parsedFiles, runs));
+    setPendingCsvFiles(unmappedCsvFiles);
+    setCsvFiles(csvFileInfo);
+    setOriginalFiles(originals);
+    setSkippedSports(skippedByFile);
     setResults(newResults);
+    setFileProgress([]);
     setIsProcessing(false);
   };
 
-  const readFileContent = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+  // Parse the first unmapped CSV file in the import worker with the mapping chosen in the wizard
+  const applyCsvMapping = async (mapping: CsvColumnMapping) => {
+    const [file, ...remaining] = pendingCsvFiles;
+    const key = getFileKey(file.position, file.fileName);
+
+    setIsProcessing(true);
+    cancelledFilesRef.current = new Set();
+    setFileProgress([{ key, fileName: file.fileName, progress: 0, status: 'parsing' }]);
+
+    const result = await parseInWorker(key, {
+      type: 'csv',
+      fileName: file.fileName,
+      content: file.content,
+      mapping
     });
+
+    workerRef.current?.terminate();
+    workerRef.current = null;
+
+    if (result?.status === 'parsed') {
+      const { csvInfo } = result;
+      if (csvInfo) setCsvFiles(prev => ({ ...prev, [key]: csvInfo }));
+      setStagedRuns(prev => classifyStagedRuns(
+        [...prev, ...stageParsedRuns(result.files.map(parsed => ({ ...parsed, position: file.position })), runs)],
+        runs
+      ).map(row => getRowFileKey(row) === key && row.duplicateInBatch ? { ...row, included: false } : row));
+    } else {
+      setResults(prev => [...prev, {
+        success: false,
+        fileName: file.fileName,
+        message: result?.status === 'failed' ? result.message : 'Cancelled.',
+        rowErrors: result?.status === 'failed' ? result.rowErrors : undefined
+      }]);
+    }
+
+    setPendingCsvFiles(remaining);
+    setFileProgress([]);
+    setIsProcessing(false);
+  };
+
+  const skipCsvFile = () => {
+    const [file, ...remaining] = pendingCsvFiles;
+    setResults(prev => [...prev, {
+      success: false,
+      fileName: file.fileName,
+      message: 'Skipped, columns were not mapped.'
+    }]);
+    setPendingCsvFiles(remaining);
+  };
+
+  const handleStagedChange = (id: string, updates: Partial<StagedRun>) => {
+    setStagedRuns(prev => classifyStagedRuns(
+      prev.map(row => row.id === id ? { ...row, ...updates } : row),
+      runs
+    ));
+  };
+
+  const handleStagedRunChange = (id: string, updates: Partial<ParsedRunData>) => {
+    setStagedRuns(prev => classifyStagedRuns(
+      prev.map(row => row.id === id ? updateStagedRun(row, updates) : row),
+      runs
+    ));
+  };
+
+  // Merge a staged row into its matched run, or record why it was left out; new runs are inserted together
+  const mergeStagedRun = async (row: StagedRun, sourcePath?: string): Promise<ImportRecord> => {
+    const { stream, laps, ...run } = row.run;
+    const match = row.duplicate.match;
+
+    if (!row.included || !match) {
+      const isDuplicate = row.duplicate.status === 'skipped' || row.duplicateInBatch;
+      return { run: row.run, status: isDuplicate ? 'skipped' : 'excluded', matchId: match?.id };
+    }
+
+    const updates = getMergeUpdates(match, { ...run, source_file: row.fileName, source_path: sourcePath });
+    if (Object.keys(updates).length > 0) {
+      await updateRun(match.id, updates);
+    }
+
+    const addStream = !!stream && !(await fetchRunStream(match.id));
+    if (addStream) {
+      await saveRunStream(match.id, stream);
+    }
+
+    const addLaps = !!laps && (await fetchRunLaps(match.id)).length === 0;
+    if (addLaps) {
+      await saveRunLaps(match.id, laps);
+    }
+
+    return {
+      run: row.run,
+      status: 'merged',
+      matchId: match.id,
+      merge: { run_id: match.id, fields: updates, added_stream: addStream, added_laps: addLaps }
+    };
+  };
+
+  const commitStagedRuns = async () => {
+    setIsCommitting(true);
+
+    const newResults: ImportResult[] = results.filter(result => !result.success);
+    const fileKeys = Array.from(new Set(stagedRuns.map(getRowFileKey)));
+    const fileNames = Array.from(new Set(stagedRuns.map(row => row.fileName)));
+    const recordsByRow: Record<string, ImportRecord> = {};
+
+    // Keep the original of each track file, unless its runs only merge into runs that have one already
+    const sourcePaths: Record<string, string> = {};
+    for (const key of fileKeys) {
+      const original = originalFiles[key];
+      const needsOriginal = stagedRuns.some(row =>
+        getRowFileKey(row) === key && row.included && !(row.action === 'merge' && row.duplicate.match?.source_path)
+      );
+      if (!original || !needsOriginal) continue;
+
+      const path = await uploadActivityFile(original);
+      if (path) sourcePaths[key] = path;
+    }
+
+    const newRows = stagedRuns.filter(row => row.included && !(row.action === 'merge' && row.duplicate.match));
+    for (const row of stagedRuns.filter(r => !newRows.includes(r))) {
+      try {
+        recordsByRow[row.id] = await mergeStagedRun(row, sourcePaths[getRowFileKey(row)]);
+      } catch (error) {
+        console.error('Error merging run:', error);
+      }
+    }
+
+    // Insert every new run in batched transactions, so the run list re-renders once
+    const createdRuns = await addRuns(newRows.map(row => {
+      const { stream, laps, ...run } = row.run;
+      return { run: { ...run, source_file: row.fileName, source_path: sourcePaths[getRowFileKey(row)] }, stream, laps };
+    }));
+    newRows.forEach((row, index) => {
+      const created = createdRuns[index];
+      if (created) recordsByRow[row.id] = { run: row.run, status: 'new', runId: created.id };
+    });
+
+    for (const key of fileKeys) {
+      const fileRows = stagedRuns.filter(row => getRowFileKey(row) === key);
+      const { fileName } = fileRows[0];
+      const records = fileRows.flatMap(row => recordsByRow[row.id] ? [recordsByRow[row.id]] : []);
+      const errorCount = fileRows.length - records.length;
+
+      const rowErrors = csvFiles[key]?.rowErrors || [];
+      newResults.push({
+        success: records.length > 0,
+        fileName,
+        message: [
+          summarizeRecords(records, errorCount),
+          rowErrors.length > 0 && `${rowErrors.length} CSV rows could not be read`,
+          skippedSports[key] && `Skipped ${describeSkippedSports(skippedSports[key])}, not runs`,
+          csvFiles[key] && describeUnits(csvFiles[key].units)
+        ]
+          .filter(Boolean)
+          .join('. '),
+        profile: csvFiles[key]?.profile,
+        records,
+        rowErrors
+      });
+    }
+
+    // Record the batch so it can be rolled back from the import history
+    const committedRecords = newResults.flatMap(result => result.records || []);
+    if (committedRecords.length > 0) {
+      await addImportBatch({
+        file_names: fileNames,
+        parser: Array.from(new Set(fileNames.map(getParserName))).join(', '),
+        run_count: countRecords(committedRecords, 'new'),
+        merged_count: countRecords(committedRecords, 'merged'),
+        skipped_count: countRecords(committedRecords, 'skipped'),
+        failed_count: stagedRuns.length - committedRecords.length,
+        run_ids: committedRecords.flatMap(record => record.runId ? [record.runId] : []),
+        merged_runs: committedRecords.flatMap(record => record.merge ? [record.merge] : [])
+      });
+    }
+
+    setStagedRuns([]);
+    setResults(newResults);
+    setIsCommitting(false);
   };
 
   const errorCount = results.filter(r => !r.success).length;
-  const totalImportedRuns = results.reduce((sum, r) => sum + (r.runCount || (r.success ? 1 : 0)), 0);
+  const allRecords = results.flatMap(r => r.records || []);
+  const totalImportedRuns = countRecords(allRecords, 'new');
+  const totalMergedRuns = countRecords(allRecords, 'merged');
+  const totalSkippedRuns = countRecords(allRecords, 'skipped');
 
   return (
     <Card className="max-w-2xl mx-auto">
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-xl font-semibold">Upload Running Files</h2>
-        <button 
-          onClick={onClose}
-          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
-        >
-          <X size={20} />
-        </button>
+        <h2 className="text-xl font-semibold">
+          {view === 'upload' ? 'Upload Running Files' : 'Import History'}
+        </h2>
+        <div className="flex items-center space-x-3">
+          <Button
+            size="sm"
+            variant="outline"
+            icon={view === 'upload' ? <History size={14} /> : <Upload size={14} />}
+            onClick={() => setView(view === 'upload' ? 'history' : 'upload')}
+            disabled={isProcessing || isCommitting}
+          >
+            {view === 'upload' ? 'History' : 'Upload'}
+          </Button>
+          <button 
+            onClick={handleClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <X size={20} />
+          </button>
+        </div>
       </div>
 
-      <div className="mb-6">
-        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
-          Upload your runs by uploading TCX, GPX, or CSV files from Garmin Connect, Strava, or other fitness platforms.
-        </p>
+      {view === 'history' ? (
+        <ImportHistory />
+      ) : (
+        <>
+          <div className="mb-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Upload your runs by uploading TCX, GPX, FIT, or CSV files from Garmin Connect, Strava, Apple Health, or other fitness platforms.
+            </p>
         
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md p-4">
-            <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">Individual Files (TCX/GPX):</h4>
-            <ol className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
-              <li>1. Go to Garmin Connect and select your activity</li>
-              <li>2. Click the gear icon (⚙️) in the top right</li>
-              <li>3. Select "Export to TCX" or "Export to GPX"</li>
-              <li>4. Upload the downloaded file here</li>
-            </ol>
-          </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md p-4">
+                <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">Individual Files (TCX/GPX/FIT):</h4>
+                <ol className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
+                  <li>1. Go to Garmin Connect and select your activity</li>
+                  <li>2. Click the gear icon (⚙️) in the top right</li>
+                  <li>3. Select "Export Original" (FIT), "Export to TCX" or "Export to GPX"</li>
+                  <li>4. Upload the downloaded file here</li>
+                </ol>
+              </div>
           
-          <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md p-4">
-            <h4 className="font-medium text-green-900 dark:text-green-100 mb-2">Bulk Import (CSV):</h4>
-            <ol className="text-sm text-green-800 dark:text-green-200 space-y-1">
-              <li>1. Go to Garmin Connect Data Export</li>
-              <li>2. Request your data export</li>
-              <li>3. Download the activities CSV file</li>
-              <li>4. Upload the CSV file here for bulk import</li>
-            </ol>
+              <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md p-4">
+                <h4 className="font-medium text-green-900 dark:text-green-100 mb-2">Bulk Import (CSV):</h4>
+                <ol className="text-sm text-green-800 dark:text-green-200 space-y-1">
+                  <li>1. Go to Garmin Connect Data Export</li>
+                  <li>2. Request your data export</li>
+                  <li>3. Download the activities CSV file</li>
+                  <li>4. Upload the CSV file here for bulk import</li>
+                </ol>
+              </div>
+
+              <div className="bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-md p-4">
+                <h4 className="font-medium text-orange-900 dark:text-orange-100 mb-2">Strava Account Export (ZIP):</h4>
+                <ol className="text-sm text-orange-800 dark:text-orange-200 space-y-1">
+                  <li>1. In Strava, go to Settings → My Account → Download or Delete Your Account</li>
+                  <li>2. Request your archive and download the ZIP from the email link</li>
+                  <li>3. Upload the ZIP here as-is, runs are matched to their GPS tracks automatically</li>
+                </ol>
+              </div>
+
+              <div className="bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-md p-4">
+                <h4 className="font-medium text-purple-900 dark:text-purple-100 mb-2">Apple Health Export (ZIP/XML):</h4>
+                <ol className="text-sm text-purple-800 dark:text-purple-200 space-y-1">
+                  <li>1. On your iPhone, open Health and tap your profile picture</li>
+                  <li>2. Tap "Export All Health Data" and save the export.zip</li>
+                  <li>3. Upload the ZIP, or export.xml together with the workout-routes GPX files</li>
+                </ol>
+              </div>
+            </div>
           </div>
-        </div>
-      </div>
 
-      <div
-        className={`
-          border-2 border-dashed rounded-lg p-8 text-center transition-colors
-          ${isDragging 
-            ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20' 
-            : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'
-          }
-          ${isProcessing ? 'opacity-50 pointer-events-none' : ''}
-        `}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-      >
-        <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
-          {isProcessing ? 'Processing files...' : 'Drop files here or click to browse'}
-        </h3>
-        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-          Supports TCX, GPX, and CSV files from Garmin, Strava, and other fitness platforms
-        </p>
+          <Select
+            id="csv-distance-unit"
+            label="CSV distance unit"
+            value={csvDistanceUnit}
+            onChange={(value) => setCsvDistanceUnit(value as CsvDistanceUnit)}
+            options={CSV_UNIT_OPTIONS}
+            disabled={isProcessing || isCommitting}
+          />
+
+          <div
+            className={`
+              border-2 border-dashed rounded-lg p-8 text-center transition-colors
+              ${isDragging 
+                ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20' 
+                : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500'
+              }
+              ${isProcessing || isCommitting || pendingCsvFiles.length > 0 ? 'opacity-50 pointer-events-none' : ''}
+            `}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+              {isProcessing ? 'Processing files...' : 'Drop files here or click to browse'}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Supports TCX, GPX, FIT, and CSV files (also gzipped or zipped), plus Strava and Apple Health exports
+            </p>
         
-        <Button
-          onClick={() => fileInputRef.current?.click()}
-          disabled={isProcessing}
-          variant="outline"
-        >
-          <FileText size={16} className="mr-2" />
-          Choose Files
-        </Button>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isProcessing || isCommitting}
+              variant="outline"
+            >
+              <FileText size={16} className="mr-2" />
+              Choose Files
+            </Button>
         
-        <input
-          ref={fileInputRef}
-          type="file"
-          multiple
-          accept=".tcx,.gpx,.csv"
-          onChange={handleFileSelect}
-          className="hidden"
-        />
-      </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".tcx,.gpx,.fit,.csv,.xml,.zip,.gz"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </div>
 
-      {results.length > 0 && (
-        <div className="mt-6">
-          <div className="flex items-center justify-between mb-4">
-            <h3 className="text-lg font-medium">Import Results</h3>
-            <div className="flex space-x-4 text-sm">
-              {totalImportedRuns > 0 && (
-                <span className="text-green-600 dark:text-green-400">
-                  ✓ {totalImportedRuns} runs imported
-                </span>
-              )}
-              {errorCount > 0 && (
-                <span className="text-red-600 dark:text-red-400">
-                  ✗ {errorCount} files failed
-                </span>
-              )}
+          {isProcessing && fileProgress.length > 0 && (
+            <div className="mt-4">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100">Parsing files</h4>
+                <Button size="sm" variant="outline" onClick={cancelAllFiles}>
+                  Cancel
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {fileProgress.map(file => (
+                  <div key={file.key} className="flex items-center space-x-3">
+                    <span className="text-sm text-gray-700 dark:text-gray-300 truncate w-40">{file.fileName}</span>
+                    <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full transition-all duration-300 ${file.status === 'cancelled' ? 'bg-gray-400' : 'bg-blue-600'}`}
+                        style={{ width: `${Math.round(file.progress * 100)}%` }}
+                      />
+                    </div>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 w-16 text-right">
+                      {file.status === 'queued'
+                        ? 'Waiting'
+                        : file.status === 'cancelled'
+                          ? 'Cancelled'
+                          : `${Math.round(file.progress * 100)}%`}
+                    </span>
+                    {(file.status === 'queued' || file.status === 'parsing') ? (
+                      <button
+                        onClick={() => cancelFile(file.key)}
+                        className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                        aria-label={`Cancel ${file.fileName}`}
+                      >
+                        <X size={14} />
+                      </button>
+                    ) : (
+                      <span className="w-3.5" />
+                    )}
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
-          
-          <div className="space-y-3 max-h-64 overflow-y-auto">
-            {results.map((result, index) => (
-              <div
-                key={index}
-                className={`
-                  flex items-start p-3 rounded-md border
-                  ${result.success 
-                    ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' 
-                    : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
-                  }
-                `}
-              >
-                <div className="flex-shrink-0 mr-3">
-                  {result.success ? (
-                    <CheckCircle className="h-5 w-5 text-green-500" />
-                  ) : (
-                    <AlertCircle className="h-5 w-5 text-red-500" />
+          )}
+
+          {pendingCsvFiles.length > 0 && !isProcessing && (
+            <CsvMappingWizard
+              key={getFileKey(pendingCsvFiles[0].position, pendingCsvFiles[0].fileName)}
+              fileName={pendingCsvFiles[0].fileName}
+              content={pendingCsvFiles[0].content}
+              remainingCount={pendingCsvFiles.length - 1}
+              onApply={applyCsvMapping}
+              onSkip={skipCsvFile}
+            />
+          )}
+
+          {pendingCsvFiles.length === 0 && stagedRuns.length > 0 && (
+            <ImportPreview
+              rows={stagedRuns}
+              isCommitting={isCommitting}
+              onChange={handleStagedChange}
+              onRunChange={handleStagedRunChange}
+              onCommit={commitStagedRuns}
+              onCancel={() => setStagedRuns([])}
+            />
+          )}
+
+          {results.length > 0 && (
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium">Import Results</h3>
+                <div className="flex space-x-4 text-sm">
+                  {totalImportedRuns > 0 && (
+                    <span className="text-green-600 dark:text-green-400">
+                      ✓ {totalImportedRuns} runs imported
+                    </span>
+                  )}
+                  {totalMergedRuns > 0 && (
+                    <span className="text-blue-600 dark:text-blue-400">
+                      ↻ {totalMergedRuns} merged
+                    </span>
+                  )}
+                  {totalSkippedRuns > 0 && (
+                    <span className="text-gray-600 dark:text-gray-400">
+                      − {totalSkippedRuns} skipped
+                    </span>
+                  )}
+                  {errorCount > 0 && (
+                    <span className="text-red-600 dark:text-red-400">
+                      ✗ {errorCount} files failed
+                    </span>
                   )}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                    {result.fileName}
-                  </p>
-                  <p className={`text-sm ${result.success ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
-                    {result.message}
-                  </p>
                 </div>
               </div>
-            ))}
-          </div>
-        </div>
+          
+              <div className="space-y-3 max-h-64 overflow-y-auto">
+                {results.map((result, index) => (
+                  <div
+                    key={index}
+                    className={`
+                      flex items-start p-3 rounded-md border
+                      ${result.success 
+                        ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' 
+                        : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+                      }
+                    `}
+                  >
+                    <div className="flex-shrink-0 mr-3">
+                      {result.success ? (
+                        <CheckCircle className="h-5 w-5 text-green-500" />
+                      ) : (
+                        <AlertCircle className="h-5 w-5 text-red-500" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {result.fileName}
+                        {result.profile && (
+                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-900 text-gray-700 dark:text-gray-300">
+                            {result.profile}
+                          </span>
+                        )}
+                      </p>
+                      <p className={`text-sm ${result.success ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+                        {result.message}
+                      </p>
+                      {result.records && result.records.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {result.records.map((record, recordIndex) => (
+                            <li key={recordIndex} className="flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+                              <span>
+                                {formatDate(record.run.date)} · {record.run.distance} mi
+                              </span>
+                              <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${STATUS_CLASSES[record.status]}`}>
+                                {STATUS_LABELS[record.status]}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {result.rowErrors && result.rowErrors.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs text-red-700 dark:text-red-300">
+                          {result.rowErrors.slice(0, MAX_LISTED_ROW_ERRORS).map(rowError => (
+                            <li key={rowError.line}>
+                              Line {rowError.line}: {rowError.reason}
+                            </li>
+                          ))}
+                          {result.rowErrors.length > MAX_LISTED_ROW_ERRORS && (
+                            <li>and {result.rowErrors.length - MAX_LISTED_ROW_ERRORS} more rows</li>
+                          )}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
       )}
 
-      <div className="flex justify-end space-x-3 mt-6">
-        <Button
-          variant="outline"
-          onClick={onClose}
-        >
-          {results.length > 0 ? 'Done' : 'Cancel'}
-        </Button>
-      </div>
+      {(view === 'history' || (stagedRuns.length === 0 && pendingCsvFiles.length === 0)) && (
+        <div className="flex justify-end space-x-3 mt-6">
+          <Button
+            variant="outline"
+            onClick={onClose}
+          >
+            {results.length > 0 ? 'Done' : 'Cancel'}
+          </Button>
+        </div>
+      )}
     </Card>
   );
 };
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import Button from '../common/Button';
+import { useAppContext } from '../../context/AppContext';
+import { format, parseISO } from 'date-fns';
+
+const ImportHistory: React.FC = () => {
+  const { importBatches, undoImportBatch } = useAppContext();
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const handleUndo = async (id: string) => {
+    setUndoingId(id);
+    await undoImportBatch(id);
+    setUndoingId(null);
+    setConfirmingId(null);
+  };
+
+  if (importBatches.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <History className="mx-auto h-12 w-12 text-gray-400" />
+        <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-100">No imports yet</h3>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Files you import will appear here so you can undo them later
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 max-h-96 overflow-y-auto">
+      {importBatches.map(batch => (
+        <div
+          key={batch.id}
+          className="flex items-start justify-between p-3 rounded-md border border-gray-200 dark:border-gray-700"
+        >
+          <div className="flex-1 min-w-0 mr-4">
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              {format(parseISO(batch.created_at), 'MMM d, yyyy h:mm a')}
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400 uppercase">
+                {batch.parser}
+              </span>
+            </p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 truncate" title={batch.file_names.join(', ')}>
+              {batch.file_names.join(', ')}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {batch.run_count} created
+              {batch.merged_count > 0 && ` · ${batch.merged_count} merged`}
+              {batch.skipped_count > 0 && ` · ${batch.skipped_count} skipped`}
+              {batch.failed_count > 0 && ` · ${batch.failed_count} failed`}
+            </p>
+            {confirmingId === batch.id && batch.merged_runs.length > 0 && (
+              <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                Details this import added to {batch.merged_runs.length} existing runs are cleared, unless edited since.
+              </p>
+            )}
+            {/* Batches recorded before merges were tracked can't restore them */}
+            {confirmingId === batch.id && batch.merged_count > 0 && batch.merged_runs.length === 0 && (
+              <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                Runs merged into existing entries are left in place.
+              </p>
+            )}
+          </div>
+
+          <div className="flex-shrink-0 flex space-x-2">
+            {confirmingId === batch.id ? (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setConfirmingId(null)}
+                  disabled={undoingId === batch.id}
+                >
+                  Cancel
+                </Button>
+                <button
+                  onClick={() => handleUndo(batch.id)}
+                  disabled={undoingId === batch.id}
+                  className="inline-flex items-center justify-center px-3 py-1.5 text-sm rounded-md font-medium bg-red-600 text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+                >
+                  {undoingId === batch.id ? 'Removing...' : `Delete ${batch.run_ids.length} runs`}
+                </button>
+              </>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                icon={<RotateCcw size={14} />}
+                onClick={() => setConfirmingId(batch.id)}
+              >
+                Undo
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -0,0 +1,200 @@
+import React from 'react';
+import { AlertCircle, Save } from 'lucide-react';
+import Button from '../common/Button';
+import { ParsedRunData } from '../../utils/garminParser';
+import { StagedAction, StagedRun, getStagedRunError } from '../../utils/importStaging';
+import { formatDuration, formatPace } from '../../utils/calculations';
+
+interface ImportPreviewProps {
+  rows: StagedRun[];
+  isCommitting: boolean;
+  onChange: (id: string, updates: Partial<StagedRun>) => void;
+  onRunChange: (id: string, updates: Partial<ParsedRunData>) => void;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+const feelingOptions = [1, 2, 3, 4, 5];
+
+const cellInputClasses = 'px-2 py-1 bg-white text-gray-700 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({
+  rows,
+  isCommitting,
+  onChange,
+  onRunChange,
+  onCommit,
+  onCancel
+}) => {
+  const includedRows = rows.filter(row => row.included);
+  const invalidCount = includedRows.filter(row => getStagedRunError(row)).length;
+  const allIncluded = rows.length > 0 && includedRows.length === rows.length;
+
+  const getStatusBadge = (row: StagedRun) => {
+    if (row.duplicateInBatch) {
+      return { label: 'Repeated in files', className: 'bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200' };
+    }
+
+    switch (row.duplicate.status) {
+      case 'skipped':
+        return { label: 'Already imported', className: 'bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200' };
+      case 'merged':
+        return { label: 'Matches existing run', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200' };
+      default:
+        return { label: 'New', className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200' };
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium">Review Import</h3>
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {includedRows.length} of {rows.length} runs selected
+        </span>
+      </div>
+
+      <div className="overflow-x-auto max-h-96 overflow-y-auto -mx-5">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+            <tr>
+              <th className="px-3 py-3 text-left">
+                <input
+                  type="checkbox"
+                  checked={allIncluded}
+                  onChange={(e) => rows.forEach(row => onChange(row.id, { included: e.target.checked }))}
+                  aria-label="Include all runs"
+                />
+              </th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Date
+              </th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Distance
+              </th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Duration
+              </th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Route
+              </th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Feeling
+              </th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                Status
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map(row => {
+              const error = row.included ? getStagedRunError(row) : null;
+              const badge = getStatusBadge(row);
+
+              return (
+                <tr key={row.id} className={row.included ? '' : 'opacity-50'}>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={row.included}
+                      onChange={(e) => onChange(row.id, { included: e.target.checked })}
+                      aria-label="Include run"
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <input
+                      type="date"
+                      value={row.run.date}
+                      onChange={(e) => onRunChange(row.id, { date: e.target.value })}
+                      className={cellInputClasses}
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.run.distance || ''}
+                      onChange={(e) => onRunChange(row.id, { distance: parseFloat(e.target.value) || 0 })}
+                      className={`${cellInputClasses} w-20`}
+                    />
+                    <span className="ml-1 text-sm text-gray-500 dark:text-gray-400">mi</span>
+                    {row.rawDistance !== undefined && row.rawDistance !== row.run.distance && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        GPS noise filtered, raw {row.rawDistance.toFixed(2)} mi
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                    {formatDuration(row.run.duration)}
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{formatPace(row.run.pace)} /mi</span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={row.run.route || ''}
+                      onChange={(e) => onRunChange(row.id, { route: e.target.value })}
+                      className={`${cellInputClasses} w-40`}
+                      placeholder={row.fileName}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={row.run.feeling_rating}
+                      onChange={(e) => onRunChange(row.id, { feeling_rating: parseInt(e.target.value, 10) })}
+                      className={cellInputClasses}
+                    >
+                      {feelingOptions.map(value => (
+                        <option key={value} value={value}>{value}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-xs">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium ${badge.className}`}>
+                      {badge.label}
+                    </span>
+                    {row.duplicate.status === 'merged' && row.included && (
+                      <select
+                        value={row.action}
+                        onChange={(e) => onChange(row.id, { action: e.target.value as StagedAction })}
+                        className={`${cellInputClasses} block mt-1 text-xs`}
+                      >
+                        <option value="merge">Merge into existing</option>
+                        <option value="new">Import as new run</option>
+                      </select>
+                    )}
+                    {error && (
+                      <span className="flex items-center mt-1 text-red-600 dark:text-red-400">
+                        <AlertCircle size={12} className="mr-1" />
+                        {error}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <Button
+          variant="outline"
+          onClick={onCancel}
+          disabled={isCommitting}
+        >
+          Discard
+        </Button>
+        <Button
+          icon={<Save size={16} />}
+          onClick={onCommit}
+          disabled={isCommitting || includedRows.length === 0 || invalidCount > 0}
+        >
+          {isCommitting ? 'Importing...' : `Import ${includedRows.length} Runs`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
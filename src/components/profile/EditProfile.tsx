@@ -1,16 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import Input from '../common/Input';
+import Select from '../common/Select';
 import Button from '../common/Button';
 import Card from '../common/Card';
-import { Save, X, User, Lock, Eye, EyeOff } from 'lucide-react';
+import { Save, X, User, Lock, Eye, EyeOff, SlidersHorizontal } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { useAppContext } from '../../context/AppContext';
+import { PaceTimeBasis } from '../../types';
 
 interface EditProfileProps {
   onClose: () => void;
   user: any;
 }
 
+const PACE_TIME_OPTIONS: { value: PaceTimeBasis; label: string }[] = [
+  { value: 'moving', label: 'Moving time (leave out stops)' },
+  { value: 'elapsed', label: 'Elapsed time (start to finish)' }
+];
+
+// IANA timezones known to the browser; the empty value follows the device
+const DEVICE_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: `This device's timezone (${DEVICE_TIME_ZONE})` },
+  ...(supportedValuesOf ? supportedValuesOf('timeZone') : [DEVICE_TIME_ZONE]).map(zone => ({
+    value: zone,
+    label: zone.replace(/_/g, ' ')
+  }))
+];
+
 const EditProfile: React.FC<EditProfileProps> = ({ onClose, user }) => {
+  const { paceTimeBasis, updatePaceTimeBasis, timeZone, updateTimeZone } = useAppContext();
+  const [timeBasis, setTimeBasis] = useState<PaceTimeBasis>(paceTimeBasis);
+  const [selectedTimeZone, setSelectedTimeZone] = useState(timeZone || '');
   const [formData, setFormData] = useState({
     username: '',
     email: user?.email || '',
@@ -113,6 +135,14 @@ const EditProfile: React.FC<EditProfileProps> = ({ onClose, user }) => {
         throw new Error(`Failed to update profile: ${profileError.message}`);
       }
 
+      if (timeBasis !== paceTimeBasis) {
+        await updatePaceTimeBasis(timeBasis);
+      }
+
+      if (selectedTimeZone !== (timeZone || '')) {
+        await updateTimeZone(selectedTimeZone || null);
+      }
+
       // Update password if provided
       if (formData.newPassword) {
         const { error: passwordError } = await supabase.auth.updateUser({
@@ -191,6 +221,44 @@ const EditProfile: React.FC<EditProfileProps> = ({ onClose, user }) => {
           </p>
         </div>
 
+        {/* Preferences Section */}
+        <div className="mb-6">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4 flex items-center">
+            <SlidersHorizontal className="mr-2" size={16} />
+            Preferences
+          </h3>
+
+          <Select
+            label="Pace and stats use"
+            value={timeBasis}
+            onChange={(value) => {
+              setTimeBasis(value as PaceTimeBasis);
+              setSuccessMessage('');
+            }}
+            options={PACE_TIME_OPTIONS}
+            fullWidth
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Imported runs record both. Runs entered by hand always use their duration.
+          </p>
+
+          <div className="mt-4">
+            <Select
+              label="Timezone"
+              value={selectedTimeZone}
+              onChange={(value) => {
+                setSelectedTimeZone(value);
+                setSuccessMessage('');
+              }}
+              options={TIME_ZONE_OPTIONS}
+              fullWidth
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Imported GPS files record start times in UTC. Runs are dated by the day they started in this timezone.
+            </p>
+          </div>
+        </div>
+
         {/* Password Change Section */}
         <div className="mb-6">
           <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4 flex items-center">
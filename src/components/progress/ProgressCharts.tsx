@@ -200,7 +200,7 @@ const RunCountChart: React.FC<{ data: any[] }> = ({ data }) => {
 
 const ProgressCharts: React.FC = () => {
   const [timeRange, setTimeRange] = useState<'weekly' | 'monthly'>('weekly');
-  const { runs } = useAppContext();
+  const { runs, paceTimeBasis } = useAppContext();
 
   // Generate stats based on actual run data
   const generateStats = () => {
@@ -217,7 +217,7 @@ const ProgressCharts: React.FC = () => {
         return {
           period: format(periodStart, 'MMM d'),
           totalMiles: calculateTotalDistance(periodRuns),
-          avgPace: calculateAveragePace(periodRuns),
+          avgPace: calculateAveragePace(periodRuns, paceTimeBasis),
           runCount: periodRuns.length
         };
       }).reverse();
@@ -234,7 +234,7 @@ const ProgressCharts: React.FC = () => {
         return {
           period: format(periodStart, 'MMM yyyy'),
           totalMiles: calculateTotalDistance(periodRuns),
-          avgPace: calculateAveragePace(periodRuns),
+          avgPace: calculateAveragePace(periodRuns, paceTimeBasis),
           runCount: periodRuns.length
         };
       }).reverse();
@@ -1,13 +1,13 @@
 import React, { useState } from 'react';
 import { useAppContext } from '../../context/AppContext';
-import { Run } from '../../types';
+import { Run, RunLapData } from '../../types';
 import Input from '../common/Input';
 import Select from '../common/Select';
 import Button from '../common/Button';
 import Card from '../common/Card';
 import { format } from 'date-fns';
-import { calculatePace } from '../../utils/calculations';
-import { Save, X } from 'lucide-react';
+import { calculatePace, formatPace, getScaledTimes } from '../../utils/calculations';
+import { Plus, Save, Trash2, X } from 'lucide-react';
 
 interface RunFormProps {
   onClose: () => void;
@@ -15,7 +15,7 @@ interface RunFormProps {
 }
 
 const RunForm: React.FC<RunFormProps> = ({ onClose, initialData }) => {
-  const { addRun, updateRun } = useAppContext();
+  const { addRun, updateRun, runLaps, saveRunLaps } = useAppContext();
   const isEditing = !!initialData;
   
   const [formData, setFormData] = useState<Omit<Run, 'id' | 'pace'>>({
@@ -29,6 +29,12 @@ const RunForm: React.FC<RunFormProps> = ({ onClose, initialData }) => {
   });
   
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Existing laps are loaded by RunsList before the form opens
+  const [splits, setSplits] = useState<RunLapData[]>(() =>
+    (initialData ? runLaps[initialData.id] || [] : [])
+      .map(({ distance, duration, pace, avg_heart_rate }) => ({ distance, duration, pace, avg_heart_rate }))
+  );
+  const [splitsChanged, setSplitsChanged] = useState(false);
   
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -59,6 +65,30 @@ const RunForm: React.FC<RunFormProps> = ({ onClose, initialData }) => {
     }
   };
   
+  const handleSplitChange = (index: number, field: 'distance' | 'duration', value: string) => {
+    setSplits(prev => prev.map((split, i) => {
+      if (i !== index) return split;
+
+      const updated = { ...split, [field]: parseFloat(value) || 0 };
+      return { ...updated, pace: calculatePace(updated.distance, updated.duration) };
+    }));
+    setSplitsChanged(true);
+
+    if (errors.splits) {
+      setErrors(prev => ({ ...prev, splits: '' }));
+    }
+  };
+
+  const addSplit = () => {
+    setSplits(prev => [...prev, { distance: 1, duration: 0, pace: 0 }]);
+    setSplitsChanged(true);
+  };
+
+  const removeSplit = (index: number) => {
+    setSplits(prev => prev.filter((_, i) => i !== index));
+    setSplitsChanged(true);
+  };
+
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
     
@@ -73,6 +103,10 @@ const RunForm: React.FC<RunFormProps> = ({ onClose, initialData }) => {
     if (formData.duration <= 0) {
       newErrors.duration = 'Duration must be greater than 0';
     }
+
+    if (splits.some(split => split.distance <= 0 || split.duration <= 0)) {
+      newErrors.splits = 'Every split needs a distance and duration';
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -89,9 +123,12 @@ const RunForm: React.FC<RunFormProps> = ({ onClose, initialData }) => {
     const pace = calculatePace(formData.distance, formData.duration);
     
     if (isEditing && initialData) {
-      updateRun(initialData.id, { ...formData, pace });
+      updateRun(initialData.id, { ...formData, pace, ...getScaledTimes(initialData, formData.duration) });
+      if (splitsChanged) {
+        saveRunLaps(initialData.id, splits);
+      }
     } else {
-      addRun({ ...formData, pace });
+      addRun({ ...formData, pace }, undefined, splits);
     }
     
     onClose();
@@ -189,6 +226,70 @@ const RunForm: React.FC<RunFormProps> = ({ onClose, initialData }) => {
           ></textarea>
         </div>
         
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Splits (optional)
+            </label>
+            {splits.length > 0 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {splits.reduce((sum, split) => sum + split.distance, 0).toFixed(2)} of {formData.distance || 0} mi
+              </span>
+            )}
+          </div>
+
+          {splits.map((split, index) => (
+            <div key={index} className="flex items-center space-x-2 mb-2">
+              <span className="w-12 text-sm text-gray-500 dark:text-gray-400">Lap {index + 1}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={split.distance || ''}
+                onChange={(e) => handleSplitChange(index, 'distance', e.target.value)}
+                className="w-24 px-2 py-1 text-sm text-gray-700 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label={`Lap ${index + 1} distance in miles`}
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">mi</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={split.duration || ''}
+                onChange={(e) => handleSplitChange(index, 'duration', e.target.value)}
+                className="w-24 px-2 py-1 text-sm text-gray-700 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label={`Lap ${index + 1} duration in minutes`}
+              />
+              <span className="text-sm text-gray-500 dark:text-gray-400">min</span>
+              <span className="flex-1 text-sm text-gray-600 dark:text-gray-400 text-right">
+                {formatPace(split.pace)} /mi
+              </span>
+              <button
+                type="button"
+                onClick={() => removeSplit(index)}
+                className="text-red-600 dark:text-red-400 hover:text-red-800"
+                aria-label={`Remove lap ${index + 1}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+
+          {errors.splits && (
+            <p className="mb-2 text-sm text-red-600">{errors.splits}</p>
+          )}
+
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            icon={<Plus size={14} />}
+            onClick={addSplit}
+          >
+            Add Split
+          </Button>
+        </div>
+        
         <div className="flex justify-end space-x-3 mt-6">
           <Button
             type="button"
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import Button from '../common/Button';
+import { useAppContext } from '../../context/AppContext';
+import { formatDuration, formatPace, formatHeartRate } from '../../utils/calculations';
+import { calculateAutoSplits, summarizeSplits, SplitSummary, SplitUnit } from '../../utils/autoSplits';
+
+interface RunSplitsProps {
+  runId: string;
+}
+
+type SplitView = 'laps' | SplitUnit;
+
+const SUMMARY_LABELS: Record<SplitSummary['type'], string> = {
+  negative: 'Negative split',
+  positive: 'Positive split',
+  even: 'Even split'
+};
+
+const SUMMARY_CLASSES: Record<SplitSummary['type'], string> = {
+  negative: 'text-green-700 dark:text-green-300',
+  positive: 'text-orange-700 dark:text-orange-300',
+  even: 'text-gray-700 dark:text-gray-300'
+};
+
+// Format a pace difference in seconds as "+0:12" or "-0:08"
+const formatPaceDifference = (seconds: number): string => {
+  if (seconds === 0) return '0:00';
+  const sign = seconds < 0 ? '-' : '+';
+  return `${sign}${formatPace(Math.abs(seconds) / 60)}`;
+};
+
+// Laps and the GPS stream are fetched by RunsList when the row is expanded
+const RunSplits: React.FC<RunSplitsProps> = ({ runId }) => {
+  const { runLaps, runStreams } = useAppContext();
+  const laps = runLaps[runId];
+  const stream = runStreams[runId];
+  const [selectedView, setSelectedView] = useState<SplitView | null>(null);
+
+  // Recorded laps are shown first; runs without laps fall back to mile splits from the track
+  const view: SplitView = selectedView || (laps && laps.length === 0 && stream ? 'mi' : 'laps');
+  const unit: SplitUnit = view === 'km' ? 'km' : 'mi';
+
+  const autoSplits = useMemo(() => stream ? calculateAutoSplits(stream, unit) : [], [stream, unit]);
+  const summary = useMemo(() => stream ? summarizeSplits(stream, unit) : null, [stream, unit]);
+
+  if (!laps) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 py-2">Loading splits...</p>;
+  }
+
+  const viewButtons = stream && autoSplits.length > 0 && (
+    <div className="flex items-center space-x-2 mb-2">
+      {laps.length > 0 && (
+        <Button size="sm" variant={view === 'laps' ? 'primary' : 'outline'} onClick={() => setSelectedView('laps')}>
+          Laps
+        </Button>
+      )}
+      <Button size="sm" variant={view === 'mi' ? 'primary' : 'outline'} onClick={() => setSelectedView('mi')}>
+        Per mile
+      </Button>
+      <Button size="sm" variant={view === 'km' ? 'primary' : 'outline'} onClick={() => setSelectedView('km')}>
+        Per km
+      </Button>
+    </div>
+  );
+
+  if (view !== 'laps') {
+    const fastestPace = Math.min(...autoSplits.filter(split => split.distance >= 1).map(split => split.pace));
+
+    return (
+      <div>
+        {viewButtons}
+        {summary && (
+          <p className={`text-sm mb-2 ${SUMMARY_CLASSES[summary.type]}`}>
+            <span className="font-medium">{SUMMARY_LABELS[summary.type]}</span>
+            {' '}— first half {formatPace(summary.first_half_pace)} /{unit}, second half {formatPace(summary.second_half_pace)} /{unit}
+            {' '}({formatPaceDifference(summary.difference)} /{unit})
+          </p>
+        )}
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              <th className="px-3 py-2 text-left font-medium">{unit === 'mi' ? 'Mile' : 'Km'}</th>
+              <th className="px-3 py-2 text-left font-medium">Distance</th>
+              <th className="px-3 py-2 text-left font-medium">Time</th>
+              <th className="px-3 py-2 text-left font-medium">Pace</th>
+              <th className="px-3 py-2 text-left font-medium">Elevation</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {autoSplits.map(split => (
+              <tr
+                key={split.index}
+                className={split.pace === fastestPace ? 'text-green-700 dark:text-green-300 font-medium' : 'text-gray-700 dark:text-gray-300'}
+              >
+                <td className="px-3 py-1.5">{split.index + 1}</td>
+                <td className="px-3 py-1.5">{split.distance.toFixed(2)} {unit}</td>
+                <td className="px-3 py-1.5">{formatDuration(split.duration)}</td>
+                <td className="px-3 py-1.5">{formatPace(split.pace)} /{unit}</td>
+                <td className="px-3 py-1.5">
+                  {split.elevation_change !== undefined
+                    ? `${split.elevation_change > 0 ? '+' : ''}${split.elevation_change} ft`
+                    : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  if (laps.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 py-2">No splits recorded for this run</p>;
+  }
+
+  // Highlight the fastest lap
+  const fastestPace = Math.min(...laps.map(lap => lap.pace));
+
+  return (
+    <div>
+      {viewButtons}
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+            <th className="px-3 py-2 text-left font-medium">Lap</th>
+            <th className="px-3 py-2 text-left font-medium">Distance</th>
+            <th className="px-3 py-2 text-left font-medium">Time</th>
+            <th className="px-3 py-2 text-left font-medium">Pace</th>
+            <th className="px-3 py-2 text-left font-medium">Avg HR</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+          {laps.map(lap => (
+            <tr
+              key={lap.id}
+              className={lap.pace === fastestPace ? 'text-green-700 dark:text-green-300 font-medium' : 'text-gray-700 dark:text-gray-300'}
+            >
+              <td className="px-3 py-1.5">{lap.lap_index + 1}</td>
+              <td className="px-3 py-1.5">{lap.distance.toFixed(2)} mi</td>
+              <td className="px-3 py-1.5">{formatDuration(lap.duration)}</td>
+              <td className="px-3 py-1.5">{formatPace(lap.pace)} /mi</td>
+              <td className="px-3 py-1.5">{formatHeartRate(lap.avg_heart_rate)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RunSplits;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import Card from '../common/Card';
+import Button from '../common/Button';
+import Select from '../common/Select';
+import { Run } from '../../types';
+import {
+  buildRunsCSV,
+  CSV_EXPORT_COLUMNS,
+  CsvExportColumn,
+  CsvExportUnit,
+  DEFAULT_EXPORT_COLUMNS,
+  getRunsExportFileName
+} from '../../utils/csvExport';
+
+interface RunsExportProps {
+  runs: Run[]; // the runs currently shown in the list
+  searchTerm: string;
+  onClose: () => void;
+}
+
+const RunsExport: React.FC<RunsExportProps> = ({ runs, searchTerm, onClose }) => {
+  const [columns, setColumns] = useState<CsvExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+  const [unit, setUnit] = useState<CsvExportUnit>('mi');
+
+  const toggleColumn = (id: CsvExportColumn) => {
+    setColumns(prev => prev.includes(id) ? prev.filter(column => column !== id) : [...prev, id]);
+  };
+
+  const downloadCSV = () => {
+    const blob = new Blob([buildRunsCSV(runs, columns, unit)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getRunsExportFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-semibold">Export Runs</h2>
+        <button
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        {runs.length} {runs.length === 1 ? 'run' : 'runs'}
+        {searchTerm ? ` matching "${searchTerm}"` : ''} will be exported as CSV. The file can be imported again.
+      </p>
+
+      <Select
+        id="export-unit"
+        label="Units"
+        value={unit}
+        onChange={(value) => setUnit(value as CsvExportUnit)}
+        options={[
+          { value: 'mi', label: 'Miles and feet' },
+          { value: 'km', label: 'Kilometers and meters' }
+        ]}
+      />
+
+      <fieldset className="mb-4">
+        <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Columns</legend>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {CSV_EXPORT_COLUMNS.map(column => (
+            <div key={column.id} className="flex items-center">
+              <input
+                type="checkbox"
+                id={`export-column-${column.id}`}
+                checked={column.required || columns.includes(column.id)}
+                disabled={column.required}
+                onChange={() => toggleColumn(column.id)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label
+                htmlFor={`export-column-${column.id}`}
+                className="ml-2 block text-sm text-gray-700 dark:text-gray-300"
+              >
+                {column.label}
+              </label>
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={downloadCSV} icon={<Download size={16} />} disabled={runs.length === 0}>
+          Download CSV
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default RunsExport;
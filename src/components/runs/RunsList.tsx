@@ -1,18 +1,37 @@
 import React, { useState } from 'react';
 import Card from '../common/Card';
 import { useAppContext } from '../../context/AppContext';
-import { formatDate, formatPace, formatDuration } from '../../utils/calculations';
-import { Edit, Trash2, Search, Sun as Run, Upload } from 'lucide-react';
+import { formatDate, formatTimeOfDay, formatPace, formatDuration, formatElevation, formatHeartRate, getRunDuration, getRunPace } from '../../utils/calculations';
+import { Edit, Trash2, Search, Sun as Run, Upload, ListOrdered, Download, RefreshCw, FileDown } from 'lucide-react';
 import RunForm from './RunForm';
+import RunSplits from './RunSplits';
 import FileImport from '../import/FileImport';
+import RunsExport from './RunsExport';
 import Button from '../common/Button';
 import { Run as RunType } from '../../types';
+import { getReprocessUpdates, reparseActivityFile } from '../../utils/reprocessRun';
+import { getActivityFileName } from '../../utils/activityFiles';
 
 const RunsList: React.FC = () => {
-  const { runs, deleteRun } = useAppContext();
+  const {
+    runs,
+    paceTimeBasis,
+    timeZone,
+    updateRun,
+    deleteRun,
+    fetchRunLaps,
+    fetchRunStream,
+    saveRunStream,
+    saveRunLaps,
+    downloadActivityFile
+  } = useAppContext();
   const [searchTerm, setSearchTerm] = useState('');
   const [editingRun, setEditingRun] = useState<RunType | null>(null);
   const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [reprocessingRunId, setReprocessingRunId] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<{ text: string; success: boolean } | null>(null);
   
   // Filter runs based on search term
   const filteredRuns = runs.filter(run => {
@@ -24,6 +43,72 @@ const RunsList: React.FC = () => {
     );
   });
 
+  const toggleSplits = (runId: string) => {
+    if (expandedRunId === runId) {
+      setExpandedRunId(null);
+      return;
+    }
+
+    setExpandedRunId(runId);
+    fetchRunLaps(runId);
+    fetchRunStream(runId);
+  };
+
+  // Load the run's splits before opening the form so they can be edited
+  const editRun = async (run: RunType) => {
+    await fetchRunLaps(run.id);
+    setEditingRun(run);
+  };
+
+  // Save the original activity file the run was imported from
+  const downloadOriginal = async (run: RunType) => {
+    if (!run.source_path) return;
+
+    const blob = await downloadActivityFile(run.source_path);
+    if (!blob) {
+      setStatusMessage({ text: 'Could not download the original file.', success: false });
+      return;
+    }
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getActivityFileName(run.source_path);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Read the original file again with the current parsers, refreshing stats, track and laps
+  const reprocessRun = async (run: RunType) => {
+    if (!run.source_path) return;
+
+    // The file's values replace the run's own, including edits made since the import
+    const confirmed = window.confirm(
+      'Reprocess this run from its original file? Date, distance, time, pace, elevation and heart rate will be ' +
+      'replaced with the values read from the file, overwriting any edits. Route, notes and feeling are kept.'
+    );
+    if (!confirmed) return;
+
+    setReprocessingRunId(run.id);
+    setStatusMessage(null);
+
+    const blob = await downloadActivityFile(run.source_path);
+    const parsed = blob
+      ? await reparseActivityFile(run, new File([blob], getActivityFileName(run.source_path)), timeZone)
+      : null;
+
+    if (parsed) {
+      await updateRun(run.id, getReprocessUpdates(parsed));
+      if (parsed.stream) await saveRunStream(run.id, parsed.stream);
+      if (parsed.laps) await saveRunLaps(run.id, parsed.laps);
+      setStatusMessage({ text: `Reprocessed the run from ${formatDate(parsed.date)}.`, success: true });
+    } else {
+      setStatusMessage({ text: 'Could not read this run from its original file.', success: false });
+    }
+
+    setReprocessingRunId(null);
+  };
+
   // Function to get feeling emoji
   const getFeelingEmoji = (rating: number): string => {
     const emojis = ['😣', '😕', '😐', '🙂', '😄'];
@@ -34,6 +119,10 @@ const RunsList: React.FC = () => {
     return <FileImport onClose={() => setShowImport(false)} />;
   }
 
+  if (showExport) {
+    return <RunsExport runs={filteredRuns} searchTerm={searchTerm} onClose={() => setShowExport(false)} />;
+  }
+
   if (editingRun) {
     return (
       <RunForm 
@@ -58,9 +147,23 @@ const RunsList: React.FC = () => {
             />
             <Search className="absolute left-3 top-3.5 h-4 w-4 text-gray-400" />
           </div>
+          <Button
+            variant="outline"
+            onClick={() => setShowExport(true)}
+            icon={<FileDown size={16} />}
+            disabled={filteredRuns.length === 0}
+          >
+            Export
+          </Button>
         </div>
       </div>
       
+      {statusMessage && (
+        <p className={`text-sm mb-4 ${statusMessage.success ? 'text-green-700 dark:text-green-300' : 'text-red-700 dark:text-red-300'}`}>
+          {statusMessage.text}
+        </p>
+      )}
+
       {filteredRuns.length > 0 ? (
         <div className="overflow-x-auto -mx-5">
           <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
@@ -78,6 +181,12 @@ const RunsList: React.FC = () => {
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Pace
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Elevation
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Heart Rate
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                   Feeling
                 </th>
@@ -91,42 +200,109 @@ const RunsList: React.FC = () => {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200 dark:divide-gray-700">
               {filteredRuns.map((run) => (
-                <tr key={run.id} className="hover:bg-gray-50 dark:bg-gray-800 transition-colors">
-                  <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">
-                    {formatDate(run.date)}
-                  </td>
-                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
-                    {run.distance} mi
-                  </td>
-                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
-                    {formatDuration(run.duration)}
-                  </td>
-                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
-                    {formatPace(run.pace)} /mi
-                  </td>
-                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
-                    {getFeelingEmoji(run.feeling_rating)}
-                  </td>
-                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300 max-w-[150px] truncate">
-                    {run.route || '—'}
-                  </td>
-                  <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300 text-right">
-                    <div className="flex justify-end space-x-2">
-                      <button
-                        onClick={() => setEditingRun(run)}
-                        className="text-blue-600 dark:text-blue-400 hover:text-blue-800"
-                      >
-                        <Edit size={16} />
-                      </button>
-                      <button
-                        onClick={() => deleteRun(run.id)}
-                        className="text-red-600 dark:text-red-400 hover:text-red-800"
-                      >
-                        <Trash2 size={16} />
-                      </button>
-                    </div>
-                  </td>
-                </tr>
+                <React.Fragment key={run.id}>
+                  <tr className="hover:bg-gray-50 dark:bg-gray-800 transition-colors">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {formatDate(run.date)}
+                      {run.start_time && (
+                        <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                          {formatTimeOfDay(run.start_time, timeZone)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                      {run.distance} mi
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                      {formatDuration(getRunDuration(run, paceTimeBasis))}
+                      {run.moving_time != null && run.elapsed_time != null && run.moving_time !== run.elapsed_time && (
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          {paceTimeBasis === 'moving'
+                            ? `${formatDuration(run.elapsed_time)} elapsed`
+                            : `${formatDuration(run.moving_time)} moving`}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                      {formatPace(getRunPace(run, paceTimeBasis))} /mi
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                      {run.elevation_gain != null ? (
+                        <>
+                          ↑ {formatElevation(run.elevation_gain)}
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">
+                            ↓ {formatElevation(run.elevation_loss)}
+                          </span>
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                      {run.avg_heart_rate != null ? (
+                        <>
+                          {formatHeartRate(run.avg_heart_rate)}
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">
+                            max {formatHeartRate(run.max_heart_rate)}
+                          </span>
+                        </>
+                      ) : '—'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                      {getFeelingEmoji(run.feeling_rating)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300 max-w-[150px] truncate">
+                      {run.route || '—'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300 text-right">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => toggleSplits(run.id)}
+                          className="text-gray-600 dark:text-gray-400 hover:text-gray-800"
+                          title="Show splits"
+                        >
+                          <ListOrdered size={16} />
+                        </button>
+                        {run.source_path && (
+                          <>
+                            <button
+                              onClick={() => downloadOriginal(run)}
+                              className="text-gray-600 dark:text-gray-400 hover:text-gray-800"
+                              title="Download original file"
+                            >
+                              <Download size={16} />
+                            </button>
+                            <button
+                              onClick={() => reprocessRun(run)}
+                              disabled={reprocessingRunId !== null}
+                              className="text-gray-600 dark:text-gray-400 hover:text-gray-800 disabled:opacity-50"
+                              title="Reprocess from original file"
+                            >
+                              <RefreshCw size={16} className={reprocessingRunId === run.id ? 'animate-spin' : ''} />
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => editRun(run)}
+                          className="text-blue-600 dark:text-blue-400 hover:text-blue-800"
+                        >
+                          <Edit size={16} />
+                        </button>
+                        <button
+                          onClick={() => deleteRun(run.id)}
+                          className="text-red-600 dark:text-red-400 hover:text-red-800"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedRunId === run.id && (
+                    <tr>
+                      <td colSpan={9} className="px-4 pb-3 bg-gray-50 dark:bg-gray-900">
+                        <RunSplits runId={run.id} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
               ))}
             </tbody>
           </table>
@@ -1,14 +1,36 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Run, Goal } from '../types';
+import { Run, RunUpdates, Goal, RunStreamPoint, RunLap, RunLapData, NewRunData, ImportBatch, CsvColumnMapping, CsvMappingPreset, PaceTimeBasis } from '../types';
 import { supabase } from '../lib/supabase';
 import { checkAllGoalsForCompletion } from '../utils/goalCompletion';
+import { chunkNewRuns } from '../utils/importStaging';
+import { getUnmergeUpdates } from '../utils/duplicateDetection';
+import { ACTIVITY_FILES_BUCKET, getActivityFilePath } from '../utils/activityFiles';
 
 interface AppContextType {
   runs: Run[];
   goals: Goal[];
-  addRun: (run: Omit<Run, 'id' | 'user_id'>) => Promise<void>;
-  updateRun: (id: string, run: Partial<Omit<Run, 'id' | 'user_id'>>) => Promise<void>;
+  runStreams: Record<string, RunStreamPoint[]>;
+  runLaps: Record<string, RunLap[]>;
+  importBatches: ImportBatch[];
+  csvMappingPresets: CsvMappingPreset[];
+  paceTimeBasis: PaceTimeBasis;
+  updatePaceTimeBasis: (basis: PaceTimeBasis) => Promise<void>;
+  timeZone: string | null;
+  updateTimeZone: (timeZone: string | null) => Promise<void>;
+  addRun: (run: Omit<Run, 'id' | 'user_id'>, stream?: RunStreamPoint[], laps?: RunLapData[]) => Promise<Run | null>;
+  addRuns: (items: NewRunData[]) => Promise<(Run | null)[]>;
+  updateRun: (id: string, run: RunUpdates) => Promise<void>;
   deleteRun: (id: string) => Promise<void>;
+  fetchRunStream: (runId: string) => Promise<RunStreamPoint[] | null>;
+  saveRunStream: (runId: string, stream: RunStreamPoint[]) => Promise<void>;
+  fetchRunLaps: (runId: string) => Promise<RunLap[]>;
+  saveRunLaps: (runId: string, laps: RunLapData[]) => Promise<void>;
+  uploadActivityFile: (file: File) => Promise<string | null>;
+  downloadActivityFile: (path: string) => Promise<Blob | null>;
+  addImportBatch: (batch: Omit<ImportBatch, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  undoImportBatch: (id: string) => Promise<void>;
+  saveCsvMappingPreset: (name: string, mapping: CsvColumnMapping) => Promise<CsvMappingPreset | null>;
+  deleteCsvMappingPreset: (id: string) => Promise<void>;
   addGoal: (goal: Omit<Goal, 'id' | 'user_id'>) => Promise<void>;
   updateGoal: (id: string, goal: Partial<Omit<Goal, 'id' | 'user_id'>>) => Promise<void>;
   deleteGoal: (id: string) => Promise<void>;
@@ -18,6 +40,7 @@ interface AppContextType {
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+
 interface AppProviderProps {
   children: ReactNode;
   currentUserId: string | null;
@@ -26,15 +49,30 @@ interface AppProviderProps {
 export const AppProvider: React.FC<AppProviderProps> = ({ children, currentUserId }) => {
   const [runs, setRuns] = useState<Run[]>([]);
   const [goals, setGoals] = useState<Goal[]>([]);
+  const [runStreams, setRunStreams] = useState<Record<string, RunStreamPoint[]>>({});
+  const [runLaps, setRunLaps] = useState<Record<string, RunLap[]>>({});
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [csvMappingPresets, setCsvMappingPresets] = useState<CsvMappingPreset[]>([]);
+  const [paceTimeBasis, setPaceTimeBasis] = useState<PaceTimeBasis>('moving');
+  const [timeZone, setTimeZone] = useState<string | null>(null);
 
   // Fetch runs and goals when the component mounts or user changes
   useEffect(() => {
     if (currentUserId) {
       fetchRuns();
       fetchGoals();
+      fetchImportBatches();
+      fetchCsvMappingPresets();
+      fetchPreferences();
     } else {
       setRuns([]);
       setGoals([]);
+      setRunStreams({});
+      setRunLaps({});
+      setImportBatches([]);
+      setCsvMappingPresets([]);
+      setPaceTimeBasis('moving');
+      setTimeZone(null);
     }
   }, [currentUserId]);
 
@@ -81,11 +119,100 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children, currentUserI
     setGoals(goalsData || []);
   };
 
+  // Fetch import history from Supabase
+  const fetchImportBatches = async () => {
+    if (!currentUserId) return;
+
+    const { data: batchesData, error } = await supabase
+      .from('import_batches')
+      .select('*')
+      .eq('user_id', currentUserId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching import batches:', error);
+      return;
+    }
+
+    setImportBatches(batchesData || []);
+  };
+
+  // Fetch saved CSV column mappings from Supabase
+  const fetchCsvMappingPresets = async () => {
+    if (!currentUserId) return;
+
+    const { data: presetsData, error } = await supabase
+      .from('csv_mapping_presets')
+      .select('*')
+      .eq('user_id', currentUserId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching CSV mapping presets:', error);
+      return;
+    }
+
+    setCsvMappingPresets(presetsData || []);
+  };
+
+  // Fetch the user's preferences from their profile
+  const fetchPreferences = async () => {
+    if (!currentUserId) return;
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('pace_time_basis, time_zone')
+      .eq('id', currentUserId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching preferences:', error);
+      return;
+    }
+
+    if (profile?.pace_time_basis) setPaceTimeBasis(profile.pace_time_basis);
+    setTimeZone(profile?.time_zone || null);
+  };
+
+  // Choose whether moving or elapsed time drives pace and stats
+  const updatePaceTimeBasis = async (basis: PaceTimeBasis) => {
+    if (!currentUserId) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ pace_time_basis: basis })
+      .eq('id', currentUserId);
+
+    if (error) {
+      console.error('Error updating preferences:', error);
+      return;
+    }
+
+    setPaceTimeBasis(basis);
+  };
+
+  // Set the timezone imported start times are placed in (null follows the device)
+  const updateTimeZone = async (zone: string | null) => {
+    if (!currentUserId) return;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ time_zone: zone })
+      .eq('id', currentUserId);
+
+    if (error) {
+      console.error('Error updating preferences:', error);
+      return;
+    }
+
+    setTimeZone(zone);
+  };
+
   // Check for automatic goal completions
   const checkGoalCompletions = async () => {
     if (!currentUserId || goals.length === 0 || runs.length === 0) return;
 
-    const goalsToUpdate = checkAllGoalsForCompletion(goals, runs);
+    const goalsToUpdate = checkAllGoalsForCompletion(goals, runs, paceTimeBasis);
     
     if (goalsToUpdate.length > 0) {
       console.log(`Auto-completing ${goalsToUpdate.length} goals`);
@@ -114,8 +241,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children, currentUserI
   };
 
   // Run functions
-  const addRun = async (run: Omit<Run, 'id' | 'user_id'>) => {
-    if (!currentUserId) return;
+  const addRun = async (run: Omit<Run, 'id' | 'user_id'>, stream?: RunStreamPoint[], laps?: RunLapData[]) => {
+    if (!currentUserId) return null;
 
     const { data, error } = await supabase
       .from('runs')
@@ -125,13 +252,56 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children, currentUserI
 
     if (error) {
       console.error('Error adding run:', error);
-      return;
+      return null;
     }
 
     setRuns(prev => [data, ...prev]);
+
+    // Store the GPS track alongside the run
+    if (stream && stream.length > 0) {
+      await saveRunStream(data.id, stream);
+    }
+
+    if (laps && laps.length > 0) {
+      await saveRunLaps(data.id, laps);
+    }
+
+    return data as Run;
+  };
+
+  // Insert many runs with their streams and laps, one transaction per chunk
+  // Results line up with items; runs in a failed chunk are null. State is updated once at the end.
+  const addRuns = async (items: NewRunData[]) => {
+    if (!currentUserId) return items.map(() => null);
+
+    const created: (Run | null)[] = [];
+    for (const chunk of chunkNewRuns(items)) {
+      const { data, error } = await supabase.rpc('import_runs', {
+        items: chunk.map(({ run, stream, laps }) => ({ run, stream: stream || null, laps: laps || null }))
+      });
+
+      if (error) {
+        console.error('Error adding runs:', error);
+        created.push(...chunk.map(() => null));
+        continue;
+      }
+
+      created.push(...(data as Run[]));
+    }
+
+    const newRuns = created.filter((run): run is Run => run !== null);
+    const newStreams: Record<string, RunStreamPoint[]> = {};
+    created.forEach((run, index) => {
+      const stream = items[index].stream;
+      if (run && stream && stream.length > 0) newStreams[run.id] = stream;
+    });
+
+    setRuns(prev => [...newRuns, ...prev]);
+    setRunStreams(prev => ({ ...prev, ...newStreams }));
+    return created;
   };
 
-  const updateRun = async (id: string, runUpdates: Partial<Omit<Run, 'id' | 'user_id'>>) => {
+  const updateRun = async (id: string, runUpdates: RunUpdates) => {
     if (!currentUserId) return;
 
     const { error } = await supabase
@@ -146,7 +316,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children, currentUserI
     }
 
     setRuns(prev => 
-      prev.map(run => run.id === id ? { ...run, ...runUpdates } : run)
+      // Cleared fields come back from the database as null too
+      prev.map(run => run.id === id ? { ...run, ...runUpdates } as Run : run)
     );
   };
 
@@ -164,7 +335,327 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children, currentUserI
       return;
     }
 
+    await removeActivityFiles(runs.filter(run => run.id === id));
+
     setRuns(prev => prev.filter(run => run.id !== id));
+    setRunStreams(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+    setRunLaps(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  // Store the GPS track for a run, replacing any earlier one (e.g. when reprocessing)
+  const saveRunStream = async (runId: string, stream: RunStreamPoint[]) => {
+    if (!currentUserId || stream.length === 0) return;
+
+    const { error } = await supabase
+      .from('run_streams')
+      .upsert([{ run_id: runId, user_id: currentUserId, points: stream, point_count: stream.length }], { onConflict: 'run_id' });
+
+    if (error) {
+      console.error('Error adding run stream:', error);
+      return;
+    }
+
+    setRunStreams(prev => ({ ...prev, [runId]: stream }));
+  };
+
+  // Fetch the GPS track for a run, caching it once loaded
+  const fetchRunStream = async (runId: string) => {
+    if (!currentUserId) return null;
+    if (runStreams[runId]) return runStreams[runId];
+
+    const { data, error } = await supabase
+      .from('run_streams')
+      .select('points')
+      .eq('run_id', runId)
+      .eq('user_id', currentUserId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching run stream:', error);
+      return null;
+    }
+
+    if (!data) return null;
+
+    const points = data.points as RunStreamPoint[];
+    setRunStreams(prev => ({ ...prev, [runId]: points }));
+    return points;
+  };
+
+  // Run lap functions
+  const fetchRunLaps = async (runId: string) => {
+    if (!currentUserId) return [];
+    if (runLaps[runId]) return runLaps[runId];
+
+    const { data, error } = await supabase
+      .from('run_laps')
+      .select('*')
+      .eq('run_id', runId)
+      .eq('user_id', currentUserId)
+      .order('lap_index', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching run laps:', error);
+      return [];
+    }
+
+    const laps = data || [];
+    setRunLaps(prev => ({ ...prev, [runId]: laps }));
+    return laps;
+  };
+
+  // Replace every lap of a run, e.g. after splits are edited in the run form
+  const saveRunLaps = async (runId: string, laps: RunLapData[]) => {
+    if (!currentUserId) return;
+
+    const { error: deleteError } = await supabase
+      .from('run_laps')
+      .delete()
+      .eq('run_id', runId)
+      .eq('user_id', currentUserId);
+
+    if (deleteError) {
+      console.error('Error deleting run laps:', deleteError);
+      return;
+    }
+
+    if (laps.length === 0) {
+      setRunLaps(prev => ({ ...prev, [runId]: [] }));
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('run_laps')
+      .insert(laps.map((lap, index) => ({ ...lap, run_id: runId, user_id: currentUserId, lap_index: index })))
+      .select();
+
+    if (error) {
+      console.error('Error adding run laps:', error);
+      return;
+    }
+
+    setRunLaps(prev => ({ ...prev, [runId]: (data || []).sort((a, b) => a.lap_index - b.lap_index) }));
+  };
+
+  // Original activity file functions
+  const uploadActivityFile = async (file: File) => {
+    if (!currentUserId) return null;
+
+    const path = getActivityFilePath(currentUserId, file.name);
+
+    const { error } = await supabase.storage
+      .from(ACTIVITY_FILES_BUCKET)
+      .upload(path, file);
+
+    if (error) {
+      console.error('Error uploading activity file:', error);
+      return null;
+    }
+
+    return path;
+  };
+
+  const downloadActivityFile = async (path: string) => {
+    if (!currentUserId) return null;
+
+    const { data, error } = await supabase.storage
+      .from(ACTIVITY_FILES_BUCKET)
+      .download(path);
+
+    if (error) {
+      console.error('Error downloading activity file:', error);
+      return null;
+    }
+
+    return data;
+  };
+
+  // Delete the stored files of removed runs, unless another run was read from the same file
+  const removeActivityFiles = async (removedRuns: Run[]) => {
+    const removedIds = new Set(removedRuns.map(run => run.id));
+    const usedPaths = new Set(runs.filter(run => !removedIds.has(run.id)).map(run => run.source_path));
+    const paths = Array.from(new Set(
+      removedRuns.flatMap(run => run.source_path && !usedPaths.has(run.source_path) ? [run.source_path] : [])
+    ));
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage
+      .from(ACTIVITY_FILES_BUCKET)
+      .remove(paths);
+
+    if (error) {
+      console.error('Error deleting activity files:', error);
+    }
+  };
+
+  // Import batch functions
+  const addImportBatch = async (batch: Omit<ImportBatch, 'id' | 'user_id' | 'created_at'>) => {
+    if (!currentUserId) return;
+
+    const { data, error } = await supabase
+      .from('import_batches')
+      .insert([{ ...batch, user_id: currentUserId }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding import batch:', error);
+      return;
+    }
+
+    setImportBatches(prev => [data, ...prev]);
+  };
+
+  // Roll back an import: clear what it filled in on existing runs, then delete every run it created
+  const undoImportBatch = async (id: string) => {
+    if (!currentUserId) return;
+
+    const batch = importBatches.find(b => b.id === id);
+    if (!batch) return;
+
+    const restoredRuns: Record<string, RunUpdates> = {};
+    for (const merge of batch.merged_runs) {
+      const run = runs.find(r => r.id === merge.run_id);
+      if (!run) continue;
+
+      const updates = getUnmergeUpdates(run, merge.fields);
+      if (Object.keys(updates).length === 0) continue;
+
+      const { error: runError } = await supabase
+        .from('runs')
+        .update(updates)
+        .eq('id', run.id)
+        .eq('user_id', currentUserId);
+
+      if (runError) {
+        console.error('Error restoring merged run:', runError);
+        return;
+      }
+
+      restoredRuns[run.id] = updates;
+    }
+
+    const streamRunIds = batch.merged_runs.filter(merge => merge.added_stream).map(merge => merge.run_id);
+    if (streamRunIds.length > 0) {
+      const { error: streamsError } = await supabase
+        .from('run_streams')
+        .delete()
+        .in('run_id', streamRunIds)
+        .eq('user_id', currentUserId);
+
+      if (streamsError) {
+        console.error('Error deleting merged run streams:', streamsError);
+        return;
+      }
+    }
+
+    const lapRunIds = batch.merged_runs.filter(merge => merge.added_laps).map(merge => merge.run_id);
+    if (lapRunIds.length > 0) {
+      const { error: lapsError } = await supabase
+        .from('run_laps')
+        .delete()
+        .in('run_id', lapRunIds)
+        .eq('user_id', currentUserId);
+
+      if (lapsError) {
+        console.error('Error deleting merged run laps:', lapsError);
+        return;
+      }
+    }
+
+    if (batch.run_ids.length > 0) {
+      const { error: runsError } = await supabase
+        .from('runs')
+        .delete()
+        .in('id', batch.run_ids)
+        .eq('user_id', currentUserId);
+
+      if (runsError) {
+        console.error('Error deleting imported runs:', runsError);
+        return;
+      }
+    }
+
+    const { error } = await supabase
+      .from('import_batches')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', currentUserId);
+
+    if (error) {
+      console.error('Error deleting import batch:', error);
+      return;
+    }
+
+    // Originals go with the deleted runs, and with merged runs whose source file was cleared
+    const removedIds = new Set(batch.run_ids);
+    await removeActivityFiles(runs.filter(run =>
+      removedIds.has(run.id) || restoredRuns[run.id]?.source_path === null
+    ));
+
+    setRuns(prev => prev
+      .filter(run => !removedIds.has(run.id))
+      .map(run => restoredRuns[run.id] ? { ...run, ...restoredRuns[run.id] } as Run : run));
+    setRunStreams(prev => {
+      const next = { ...prev };
+      removedIds.forEach(runId => delete next[runId]);
+      streamRunIds.forEach(runId => delete next[runId]);
+      return next;
+    });
+    setRunLaps(prev => {
+      const next = { ...prev };
+      removedIds.forEach(runId => delete next[runId]);
+      lapRunIds.forEach(runId => delete next[runId]);
+      return next;
+    });
+    setImportBatches(prev => prev.filter(b => b.id !== id));
+  };
+
+  // CSV mapping preset functions
+  // Saving under an existing name replaces that preset's mapping
+  const saveCsvMappingPreset = async (name: string, mapping: CsvColumnMapping): Promise<CsvMappingPreset | null> => {
+    if (!currentUserId) return null;
+
+    const { data, error } = await supabase
+      .from('csv_mapping_presets')
+      .upsert([{ name, mapping, user_id: currentUserId }], { onConflict: 'user_id,name' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving CSV mapping preset:', error);
+      return null;
+    }
+
+    setCsvMappingPresets(prev =>
+      [...prev.filter(p => p.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    return data;
+  };
+
+  const deleteCsvMappingPreset = async (id: string) => {
+    if (!currentUserId) return;
+
+    const { error } = await supabase
+      .from('csv_mapping_presets')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', currentUserId);
+
+    if (error) {
+      console.error('Error deleting CSV mapping preset:', error);
+      return;
+    }
+
+    setCsvMappingPresets(prev => prev.filter(p => p.id !== id));
   };
 
   // Goal functions
@@ -248,9 +739,28 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children, currentUserI
       value={{
         runs,
         goals,
+        runStreams,
+        runLaps,
+        importBatches,
+        csvMappingPresets,
+        paceTimeBasis,
+        updatePaceTimeBasis,
+        timeZone,
+        updateTimeZone,
         addRun,
+        addRuns,
         updateRun,
         deleteRun,
+        fetchRunStream,
+        saveRunStream,
+        fetchRunLaps,
+        saveRunLaps,
+        uploadActivityFile,
+        downloadActivityFile,
+        addImportBatch,
+        undoImportBatch,
+        saveCsvMappingPreset,
+        deleteCsvMappingPreset,
         addGoal,
         updateGoal,
         deleteGoal,
@@ -8,6 +8,104 @@ export interface Run {
   route?: string;
   notes?: string;
   feeling_rating: number; // 1-5 scale
+  source_file?: string; // name of the imported file, if any
+  start_time?: string; // ISO timestamp of the start, for runs imported from files that record one
+  source_path?: string; // storage path of the original TCX/GPX/FIT file, kept for download and reprocessing
+  elevation_gain?: number; // in feet
+  elevation_loss?: number; // in feet
+  avg_heart_rate?: number; // in bpm
+  max_heart_rate?: number; // in bpm
+  moving_time?: number; // in minutes, excluding pauses
+  elapsed_time?: number; // in minutes, from start to finish
+}
+
+// Changes to a run; optional fields are cleared by setting them to null
+export type RunUpdates = {
+  [K in keyof Omit<Run, 'id' | 'user_id'>]?: undefined extends Run[K] ? Run[K] | null : Run[K];
+};
+
+// Which time drives pace and stats: moving time leaves out stops, elapsed time counts them
+export type PaceTimeBasis = 'moving' | 'elapsed';
+
+export interface RunStreamPoint {
+  time: string; // ISO timestamp
+  lat?: number;
+  lon?: number;
+  elevation?: number; // in meters
+  heart_rate?: number; // in bpm
+}
+
+export interface RunStream {
+  id: string;
+  run_id: string;
+  user_id: string;
+  points: RunStreamPoint[];
+}
+
+export interface RunLap {
+  id: string;
+  run_id: string;
+  user_id: string;
+  lap_index: number; // order within the run, starting at 0
+  distance: number; // in miles
+  duration: number; // in minutes
+  pace: number; // in minutes per mile
+  avg_heart_rate?: number; // in bpm
+}
+
+export type RunLapData = Pick<RunLap, 'distance' | 'duration' | 'pace' | 'avg_heart_rate'>;
+
+// A new run with its optional GPS track and laps, for batched imports
+export interface NewRunData {
+  run: Omit<Run, 'id' | 'user_id'>;
+  stream?: RunStreamPoint[];
+  laps?: RunLapData[];
+}
+
+export interface ImportBatch {
+  id: string;
+  user_id: string;
+  file_names: string[];
+  parser: string; // comma separated parsers used, e.g. "csv, tcx"
+  run_count: number;
+  merged_count: number;
+  skipped_count: number;
+  failed_count: number;
+  run_ids: string[]; // runs created by this import
+  merged_runs: ImportBatchMerge[]; // existing runs this import filled in
+  created_at: string;
+}
+
+// An existing run an import merged into; undo clears what it added
+export interface ImportBatchMerge {
+  run_id: string;
+  fields: RunUpdates; // blank fields the import filled, with the values it wrote
+  added_stream: boolean;
+  added_laps: boolean;
+}
+
+export type CsvRunField = 'date' | 'distance' | 'duration' | 'pace' | 'route' | 'notes' | 'feeling_rating' | 'activity_type';
+
+export type CsvDistanceUnit = 'auto' | 'mi' | 'km' | 'm';
+
+export type CsvPaceUnit = 'auto' | 'mi' | 'km'; // 'auto' follows the distance unit
+
+export type CsvDurationUnit = 'auto' | 'min' | 's' | 'ms';
+
+export interface CsvColumnMapping {
+  columns: Partial<Record<CsvRunField, string>>; // run field -> CSV header name
+  date_format: string; // date-fns format, or 'auto' to guess
+  distance_unit: CsvDistanceUnit;
+  pace_unit?: CsvPaceUnit;
+  duration_unit?: CsvDurationUnit; // for plain numbers; 'auto' reads them as minutes
+}
+
+export interface CsvMappingPreset {
+  id: string;
+  user_id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  created_at: string;
 }
 
 export interface Goal {
@@ -0,0 +1,19 @@
+/**
+ * Storage bucket holding original activity files, one folder per user
+ */
+export const ACTIVITY_FILES_BUCKET = 'activity-files';
+
+/**
+ * Storage path for a new original file: <user id>/<unique folder>/<file name>.
+ * Archive entries carry their folder in the name; only the base name is kept.
+ */
+export const getActivityFilePath = (userId: string, fileName: string): string => {
+  return `${userId}/${crypto.randomUUID()}/${getActivityFileName(fileName)}`;
+};
+
+/**
+ * File name of a stored activity file, from its path in the bucket
+ */
+export const getActivityFileName = (path: string): string => {
+  return path.split('/').pop() || path;
+};
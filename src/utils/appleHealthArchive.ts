@@ -0,0 +1,55 @@
+import { unzipSync } from 'fflate';
+import { ParsedRunData, parseAppleHealthExport } from './garminParser';
+
+const EXPORT_FILE = 'export.xml';
+const ROUTES_FOLDER = 'workout-routes/';
+
+/**
+ * Check whether an unzipped archive is an Apple Health export (export.zip)
+ */
+export const isAppleHealthArchive = (entryNames: string[]): boolean => {
+  return entryNames.some(name => name === EXPORT_FILE || name.endsWith(`/${EXPORT_FILE}`));
+};
+
+/**
+ * Check whether a file name is a workout route GPX written by the Health app
+ */
+export const isAppleHealthRouteFile = (fileName: string): boolean => {
+  const baseName = fileName.split('/').pop() || '';
+  return /^route_.*\.gpx$/i.test(baseName);
+};
+
+/**
+ * Unpack an Apple Health export (.zip) in the browser.
+ * Only export.xml and the workout-routes/ folder are extracted; clinical
+ * records and ECG files are skipped.
+ */
+export const unzipAppleHealthArchive = (buffer: ArrayBuffer): Record<string, Uint8Array> => {
+  return unzipSync(new Uint8Array(buffer), {
+    filter: file => file.name.endsWith(`/${EXPORT_FILE}`) || file.name === EXPORT_FILE || file.name.includes(ROUTES_FOLDER)
+  });
+};
+
+/**
+ * Parse every running workout in an unzipped Apple Health export, attaching
+ * GPS streams from the workout-routes/ folder where available.
+ */
+export const parseAppleHealthArchive = (
+  entries: Record<string, Uint8Array>,
+  onProgress?: (progress: number) => void
+): ParsedRunData[] | null => {
+  const exportPath = Object.keys(entries).find(name => name === EXPORT_FILE || name.endsWith(`/${EXPORT_FILE}`));
+  if (!exportPath) {
+    throw new Error('No export.xml found in Apple Health archive');
+  }
+
+  const decoder = new TextDecoder();
+  const routeFiles: Record<string, string> = {};
+  Object.keys(entries)
+    .filter(isAppleHealthRouteFile)
+    .forEach(name => {
+      routeFiles[name.split('/').pop() as string] = decoder.decode(entries[name]);
+    });
+
+  return parseAppleHealthExport(decoder.decode(entries[exportPath]), routeFiles, onProgress);
+};
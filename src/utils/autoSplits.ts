@@ -0,0 +1,135 @@
+import { RunStreamPoint } from '../types';
+import { getFilteredTrack } from './garminParser';
+
+export type SplitUnit = 'mi' | 'km';
+
+export interface AutoSplit {
+  index: number; // order within the run, starting at 0
+  distance: number; // in the split unit; below 1 for the final partial split
+  duration: number; // elapsed minutes
+  pace: number; // minutes per split unit
+  elevation_change?: number; // in feet, end minus start
+}
+
+export interface SplitSummary {
+  type: 'negative' | 'positive' | 'even';
+  first_half_pace: number; // minutes per split unit
+  second_half_pace: number;
+  difference: number; // seconds per split unit, second half minus first half
+}
+
+const KM_PER_UNIT: Record<SplitUnit, number> = {
+  mi: 1.609344,
+  km: 1
+};
+
+const METERS_TO_FEET = 3.28084;
+
+// Halves within this many seconds per unit of each other count as even
+const EVEN_SPLIT_SECONDS = 5;
+
+interface TrackSample {
+  distance: number; // cumulative kilometers
+  time: number; // seconds since the first point
+  elevation?: number; // in meters
+}
+
+/**
+ * Walk the GPS points into cumulative distance and time samples, using the same
+ * noise-filtered distance as the run so the splits add up to it.
+ * Points without coordinates or a valid timestamp are skipped.
+ */
+const toTrackSamples = (stream: RunStreamPoint[]): TrackSample[] => {
+  const timedPoints = stream.filter(point => !isNaN(new Date(point.time).getTime()));
+  const track = getFilteredTrack(timedPoints);
+  if (track.length === 0) return [];
+
+  const start = new Date(track[0].point.time).getTime();
+  return track.map(({ point, distance }) => ({
+    distance,
+    time: (new Date(point.time).getTime() - start) / 1000,
+    elevation: point.elevation
+  }));
+};
+
+/**
+ * Interpolate time and elevation at a cumulative distance along the track
+ */
+const sampleAt = (samples: TrackSample[], distance: number): TrackSample => {
+  const index = samples.findIndex(sample => sample.distance >= distance);
+  if (index <= 0) return index === 0 ? samples[0] : samples[samples.length - 1];
+
+  const before = samples[index - 1];
+  const after = samples[index];
+  const ratio = (distance - before.distance) / (after.distance - before.distance);
+  const elevation = before.elevation !== undefined && after.elevation !== undefined
+    ? before.elevation + (after.elevation - before.elevation) * ratio
+    : undefined;
+
+  return {
+    distance,
+    time: before.time + (after.time - before.time) * ratio,
+    elevation
+  };
+};
+
+/**
+ * Split a GPS track every mile or kilometer, with a shorter final split for
+ * the remainder. Returns an empty list when the track has no usable points.
+ */
+export const calculateAutoSplits = (stream: RunStreamPoint[], unit: SplitUnit): AutoSplit[] => {
+  const samples = toTrackSamples(stream);
+  if (samples.length < 2) return [];
+
+  const splitLength = KM_PER_UNIT[unit];
+  const totalDistance = samples[samples.length - 1].distance;
+  const splits: AutoSplit[] = [];
+
+  let start = samples[0];
+  while (start.distance < totalDistance) {
+    const end = sampleAt(samples, Math.min(start.distance + splitLength, totalDistance));
+    const distance = (end.distance - start.distance) / splitLength;
+    const duration = (end.time - start.time) / 60;
+
+    // Skip GPS jitter left over after the last full split
+    if (distance >= 0.01) {
+      splits.push({
+        index: splits.length,
+        distance: Math.round(distance * 100) / 100,
+        duration: Math.round(duration * 100) / 100,
+        pace: Math.round((duration / distance) * 100) / 100,
+        elevation_change: start.elevation !== undefined && end.elevation !== undefined
+          ? Math.round((end.elevation - start.elevation) * METERS_TO_FEET)
+          : undefined
+      });
+    }
+    start = end;
+  }
+
+  return splits;
+};
+
+/**
+ * Compare the pace of the first and second half of the run by distance.
+ * A negative split means the second half was faster.
+ */
+export const summarizeSplits = (stream: RunStreamPoint[], unit: SplitUnit): SplitSummary | null => {
+  const samples = toTrackSamples(stream);
+  if (samples.length < 2) return null;
+
+  const last = samples[samples.length - 1];
+  const halfDistance = last.distance / 2 / KM_PER_UNIT[unit];
+  if (halfDistance <= 0) return null;
+
+  const halfway = sampleAt(samples, last.distance / 2);
+  const firstHalfPace = halfway.time / 60 / halfDistance;
+  const secondHalfPace = (last.time - halfway.time) / 60 / halfDistance;
+  const difference = Math.round((secondHalfPace - firstHalfPace) * 60);
+
+  return {
+    type: Math.abs(difference) <= EVEN_SPLIT_SECONDS ? 'even' : difference < 0 ? 'negative' : 'positive',
+    first_half_pace: Math.round(firstHalfPace * 100) / 100,
+    second_half_pace: Math.round(secondHalfPace * 100) / 100,
+    difference
+  };
+};
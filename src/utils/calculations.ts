@@ -1,4 +1,4 @@
-import { Run } from '../types';
+import { PaceTimeBasis, Run } from '../types';
 import { format, parseISO, isThisWeek, isThisMonth, isThisYear } from 'date-fns';
 
 // Calculate pace from distance and duration
@@ -7,6 +7,27 @@ export const calculatePace = (distance: number, duration: number): number => {
   return duration / distance;
 };
 
+// Get the run's moving or elapsed time, falling back to its duration when not recorded
+export const getRunDuration = (run: Run, basis: PaceTimeBasis): number => {
+  const time = basis === 'moving' ? run.moving_time : run.elapsed_time;
+  return time ?? run.duration;
+};
+
+// Calculate a run's pace from its moving or elapsed time
+export const getRunPace = (run: Run, basis: PaceTimeBasis): number => {
+  if (run.moving_time == null && run.elapsed_time == null) return run.pace;
+  return calculatePace(run.distance, getRunDuration(run, basis));
+};
+
+// Moving and elapsed time scaled to an edited duration, keeping the share of paused time
+// Stats read these before duration, so an edit would otherwise have no effect
+export const getScaledTimes = (run: Run, duration: number): Pick<Run, 'moving_time' | 'elapsed_time'> => {
+  if (duration === run.duration || !(run.duration > 0)) return {};
+
+  const scale = (time?: number) => time != null ? Math.round(time * (duration / run.duration) * 100) / 100 : time;
+  return { moving_time: scale(run.moving_time), elapsed_time: scale(run.elapsed_time) };
+};
+
 // Format pace as MM:SS
 export const formatPace = (pace: number): string => {
   if (pace === 0) return '--:--';
@@ -38,13 +59,13 @@ export const calculateTotalDistance = (runs: Run[]): number => {
 };
 
 // Calculate average pace
-export const calculateAveragePace = (runs: Run[]): number => {
+export const calculateAveragePace = (runs: Run[], basis: PaceTimeBasis = 'elapsed'): number => {
   if (runs.length === 0) return 0;
   
   const totalDistance = calculateTotalDistance(runs);
   if (totalDistance === 0) return 0;
   
-  const totalDuration = runs.reduce((sum, run) => sum + run.duration, 0);
+  const totalDuration = runs.reduce((sum, run) => sum + getRunDuration(run, basis), 0);
   return parseFloat((totalDuration / totalDistance).toFixed(2));
 };
 
@@ -68,6 +89,23 @@ export const getRunsByPeriod = (runs: Run[], period: 'week' | 'month' | 'year' |
   });
 };
 
+// Calculate total elevation gain in feet, skipping runs without elevation data
+export const calculateTotalElevationGain = (runs: Run[]): number => {
+  return runs.reduce((sum, run) => sum + (run.elevation_gain || 0), 0);
+};
+
+// Format elevation in feet
+export const formatElevation = (feet?: number): string => {
+  if (feet === undefined || feet === null) return '—';
+  return `${Math.round(feet).toLocaleString()} ft`;
+};
+
+// Format heart rate in bpm
+export const formatHeartRate = (bpm?: number): string => {
+  if (bpm === undefined || bpm === null) return '—';
+  return `${Math.round(bpm)} bpm`;
+};
+
 // Get longest run
 export const getLongestRun = (runs: Run[]): Run | null => {
   if (runs.length === 0) return null;
@@ -77,15 +115,21 @@ export const getLongestRun = (runs: Run[]): Run | null => {
 };
 
 // Get fastest run (lowest pace) for distances over 1 mile
-export const getFastestRun = (runs: Run[]): Run | null => {
+export const getFastestRun = (runs: Run[], basis: PaceTimeBasis = 'elapsed'): Run | null => {
   const validRuns = runs.filter(run => run.distance >= 1);
   if (validRuns.length === 0) return null;
   
   return validRuns.reduce((fastest, run) => 
-    run.pace < fastest.pace ? run : fastest, validRuns[0]);
+    getRunPace(run, basis) < getRunPace(fastest, basis) ? run : fastest, validRuns[0]);
 };
 
 // Format date in a readable format
 export const formatDate = (dateString: string): string => {
   return format(parseISO(dateString), 'MMM d, yyyy');
+};
+
+// Format a start timestamp as a time of day ("6:45 PM") in the given timezone, or the device's
+export const formatTimeOfDay = (timestamp: string, timeZone?: string | null): string => {
+  return new Intl.DateTimeFormat('en-US', { timeZone: timeZone || undefined, hour: 'numeric', minute: '2-digit' })
+    .format(new Date(timestamp));
 };
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { format } from 'date-fns';
+import { Run } from '../types';
+
+export type CsvExportColumn =
+  | 'date'
+  | 'distance'
+  | 'duration'
+  | 'pace'
+  | 'route'
+  | 'notes'
+  | 'feeling_rating'
+  | 'start_time'
+  | 'moving_time'
+  | 'elapsed_time'
+  | 'elevation_gain'
+  | 'elevation_loss'
+  | 'avg_heart_rate'
+  | 'max_heart_rate'
+  | 'source_file';
+
+export type CsvExportUnit = 'mi' | 'km';
+
+interface CsvExportColumnDefinition {
+  id: CsvExportColumn;
+  label: string;
+  required?: boolean; // needed to import the file again
+  header: (unit: CsvExportUnit) => string;
+  value: (run: Run, unit: CsvExportUnit) => string;
+}
+
+const KM_PER_MILE = 1.609344;
+const METERS_PER_FOOT = 0.3048;
+
+// Minutes as H:MM:SS, or M:SS when under an hour
+const formatClock = (minutes: number): string => {
+  const totalSeconds = Math.round(minutes * 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${mins.toString().padStart(2, '0')}:${seconds}` : `${mins}:${seconds}`;
+};
+
+const optionalClock = (minutes?: number | null): string => minutes != null ? formatClock(minutes) : '';
+
+const optionalNumber = (value?: number | null): string => value != null ? String(value) : '';
+
+const convertElevation = (feet: number | null | undefined, unit: CsvExportUnit): string => {
+  if (feet == null) return '';
+  return unit === 'km' ? String(Math.round(feet * METERS_PER_FOOT)) : String(feet);
+};
+
+// Headers are chosen to be picked up by the CSV importer's column detection, so "Time"
+// comes before the other headers containing "time"
+export const CSV_EXPORT_COLUMNS: CsvExportColumnDefinition[] = [
+  { id: 'date', label: 'Date', required: true, header: () => 'Date', value: run => run.date },
+  {
+    id: 'distance',
+    label: 'Distance',
+    required: true,
+    header: unit => `Distance (${unit})`,
+    value: (run, unit) => unit === 'km' ? (run.distance * KM_PER_MILE).toFixed(3) : String(run.distance)
+  },
+  { id: 'duration', label: 'Time', required: true, header: () => 'Time', value: run => formatClock(run.duration) },
+  {
+    id: 'pace',
+    label: 'Pace',
+    header: unit => `Avg Pace (min/${unit})`,
+    value: (run, unit) => run.pace > 0 ? formatClock(unit === 'km' ? run.pace / KM_PER_MILE : run.pace) : ''
+  },
+  { id: 'route', label: 'Route', header: () => 'Title', value: run => run.route || '' },
+  { id: 'notes', label: 'Notes', header: () => 'Notes', value: run => run.notes || '' },
+  { id: 'feeling_rating', label: 'Feeling', header: () => 'Feeling', value: run => optionalNumber(run.feeling_rating) },
+  { id: 'start_time', label: 'Start time', header: () => 'Start Time', value: run => run.start_time || '' },
+  { id: 'moving_time', label: 'Moving time', header: () => 'Moving Time', value: run => optionalClock(run.moving_time) },
+  { id: 'elapsed_time', label: 'Elapsed time', header: () => 'Elapsed Time', value: run => optionalClock(run.elapsed_time) },
+  {
+    id: 'elevation_gain',
+    label: 'Elevation gain',
+    header: unit => `Elevation Gain (${unit === 'km' ? 'm' : 'ft'})`,
+    value: (run, unit) => convertElevation(run.elevation_gain, unit)
+  },
+  {
+    id: 'elevation_loss',
+    label: 'Elevation loss',
+    header: unit => `Elevation Loss (${unit === 'km' ? 'm' : 'ft'})`,
+    value: (run, unit) => convertElevation(run.elevation_loss, unit)
+  },
+  { id: 'avg_heart_rate', label: 'Avg heart rate', header: () => 'Avg HR', value: run => optionalNumber(run.avg_heart_rate) },
+  { id: 'max_heart_rate', label: 'Max heart rate', header: () => 'Max HR', value: run => optionalNumber(run.max_heart_rate) },
+  { id: 'source_file', label: 'Source file', header: () => 'Source File', value: run => run.source_file || '' }
+];
+
+export const DEFAULT_EXPORT_COLUMNS: CsvExportColumn[] = ['date', 'distance', 'duration', 'pace', 'route', 'notes', 'feeling_rating'];
+
+// Quote a field when it holds a delimiter, quote or line break (RFC 4180), or
+// padding that readers trim from unquoted values
+const toCSVField = (value: string): string => {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Write runs as CSV with the chosen columns, in the fixed column order and in miles or kilometers.
+ * The required columns are always written, so the file can be imported again as is.
+ */
+export const buildRunsCSV = (runs: Run[], columns: CsvExportColumn[], unit: CsvExportUnit): string => {
+  const selected = CSV_EXPORT_COLUMNS.filter(column => column.required || columns.includes(column.id));
+  const rows = [
+    selected.map(column => column.header(unit)),
+    ...runs.map(run => selected.map(column => column.value(run, unit)))
+  ];
+
+  // Lead with a byte order mark so spreadsheets read the file as UTF-8
+  return '\uFEFF' + rows.map(row => row.map(toCSVField).join(',')).join('\r\n') + '\r\n';
+};
+
+export const getRunsExportFileName = (date = new Date()): string => {
+  return `trackmyrun-runs-${format(date, 'yyyy-MM-dd')}.csv`;
+};
@@ -0,0 +1,131 @@
+import { CsvColumnMapping, CsvDistanceUnit } from '../types';
+
+export interface CsvProfile {
+  id: string;
+  name: string;
+  signature: string[]; // headers that must all be present, compared case-insensitively
+  mapping: (headers: string[]) => CsvColumnMapping;
+  runningTypes: string[]; // activity type labels imported as runs, compared case-insensitively
+  firstRowOnly?: boolean; // the file describes one session, later rows are samples
+}
+
+/**
+ * Find the header matching a name, ignoring case and a trailing "(unit)"
+ */
+const findHeader = (headers: string[], name: string): string | undefined => {
+  return headers.find(header => header.toLowerCase().replace(/\s*\(.*\)$/, '') === name.toLowerCase());
+};
+
+/**
+ * Read the distance unit from a header such as "Distance (km)"
+ */
+const getHeaderUnit = (header: string | undefined, fallback: CsvDistanceUnit): CsvDistanceUnit => {
+  const unit = header?.match(/\((mi|km|m)\)/i)?.[1].toLowerCase();
+  return (unit as CsvDistanceUnit | undefined) || fallback;
+};
+
+/**
+ * Export layouts from other apps, checked before the generic Garmin header guessing
+ */
+export const CSV_PROFILES: CsvProfile[] = [
+  {
+    // cardioActivities.csv from the Runkeeper data export
+    id: 'runkeeper',
+    name: 'Runkeeper',
+    signature: ['Activity Id', 'Type', 'Route Name', 'Duration'],
+    mapping: headers => {
+      const distance = headers.find(h => h.startsWith('Distance ('));
+      return {
+        columns: {
+          date: findHeader(headers, 'Date'),
+          distance,
+          duration: findHeader(headers, 'Duration'),
+          route: findHeader(headers, 'Route Name'),
+          notes: findHeader(headers, 'Notes'),
+          activity_type: findHeader(headers, 'Type')
+        },
+        date_format: 'yyyy-MM-dd HH:mm:ss',
+        distance_unit: getHeaderUnit(distance, 'mi'),
+        duration_unit: 'auto'
+      };
+    },
+    runningTypes: ['Running']
+  },
+  {
+    // Per-session CSV from Polar Flow: a summary header and row, followed by samples
+    id: 'polar',
+    name: 'Polar Flow',
+    signature: ['Name', 'Sport', 'Start time', 'Total distance (km)'],
+    mapping: headers => ({
+      columns: {
+        date: findHeader(headers, 'Date'),
+        distance: findHeader(headers, 'Total distance'),
+        duration: findHeader(headers, 'Duration'),
+        activity_type: findHeader(headers, 'Sport') // Name holds the athlete, not the session
+      },
+      date_format: 'dd-MM-yyyy',
+      distance_unit: 'km',
+      duration_unit: 'auto'
+    }),
+    runningTypes: ['RUNNING', 'TREADMILL_RUNNING', 'TRAIL_RUNNING', 'TRACK_AND_FIELD_RUNNING', 'ROAD_RUNNING'],
+    firstRowOnly: true
+  },
+  {
+    // Activity list export from COROS Training Hub
+    id: 'coros',
+    name: 'COROS',
+    signature: ['Activity Name', 'Sport Type', 'Total Time'],
+    mapping: headers => {
+      const distance = findHeader(headers, 'Distance');
+      return {
+        columns: {
+          date: findHeader(headers, 'Date'),
+          distance,
+          duration: findHeader(headers, 'Total Time'),
+          route: findHeader(headers, 'Activity Name'),
+          activity_type: findHeader(headers, 'Sport Type')
+        },
+        date_format: 'auto',
+        distance_unit: getHeaderUnit(distance, 'km'),
+        duration_unit: 'auto'
+      };
+    },
+    runningTypes: ['Run', 'Indoor Run', 'Trail Run', 'Track Run']
+  },
+  {
+    // Nike Run Club has no built-in export; this is the layout written by the common NRC exporters
+    id: 'nike',
+    name: 'Nike Run Club',
+    signature: ['start_time', 'distance_km', 'duration_ms'],
+    mapping: headers => ({
+      columns: {
+        date: findHeader(headers, 'start_time'),
+        distance: findHeader(headers, 'distance_km'),
+        duration: findHeader(headers, 'duration_ms'),
+        route: findHeader(headers, 'name'),
+        activity_type: findHeader(headers, 'type')
+      },
+      date_format: 'auto',
+      distance_unit: 'km',
+      duration_unit: 'ms'
+    }),
+    runningTypes: ['run', 'running']
+  }
+];
+
+/**
+ * Find the vendor profile whose header signature matches a CSV file
+ */
+export const detectCSVProfile = (headers: string[]): CsvProfile | null => {
+  const lowerHeaders = headers.map(header => header.toLowerCase());
+  return CSV_PROFILES.find(profile =>
+    profile.signature.every(name => lowerHeaders.includes(name.toLowerCase()))
+  ) || null;
+};
+
+/**
+ * Check an activity type against a profile's running labels
+ */
+export const isProfileRunningActivity = (profile: CsvProfile, activityType: string): boolean => {
+  return profile.runningTypes.some(type => type.toLowerCase() === activityType.toLowerCase());
+};
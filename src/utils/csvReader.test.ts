@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { detectCSVDelimiter, readCSVRecords } from './csvReader';
+
+const readAll = (content: string, delimiter?: string) => Array.from(readCSVRecords(content, delimiter));
+
+describe('readCSVRecords', () => {
+  it('reads CRLF rows and keeps line breaks inside quoted fields', () => {
+    const records = readAll('Date,Notes\r\n2024-05-01,"Hills,\r\nthen flats"\r\n2024-05-02,Easy\r\n');
+
+    expect(records.map(record => record.values)).toEqual([
+      ['Date', 'Notes'],
+      ['2024-05-01', 'Hills,\r\nthen flats'],
+      ['2024-05-02', 'Easy']
+    ]);
+    expect(records.map(record => record.line)).toEqual([1, 2, 4]);
+  });
+
+  it('unescapes doubled quotes and trims only unquoted values', () => {
+    const [record] = readAll('"He said ""go""", padded ,"  kept  "');
+
+    expect(record.values).toEqual(['He said "go"', 'padded', '  kept  ']);
+  });
+
+  it('drops a byte order mark and skips blank lines', () => {
+    const records = readAll('\uFEFFDate,Distance\n\n2024-05-01,5\r\r\n');
+
+    expect(records.map(record => record.values)).toEqual([['Date', 'Distance'], ['2024-05-01', '5']]);
+  });
+
+  it('flags a quoted field that is never closed', () => {
+    const records = readAll('Date,Notes\n2024-05-01,"Never closed\n2024-05-02,Easy\n');
+
+    expect(records).toHaveLength(2);
+    expect(records[1]).toMatchObject({ line: 2, error: 'Quoted field is never closed' });
+  });
+
+  it('keeps a quote inside an unquoted field as text', () => {
+    const [record] = readAll('5" rain,easy');
+
+    expect(record.values).toEqual(['5" rain', 'easy']);
+    expect(record.error).toBeUndefined();
+  });
+});
+
+describe('detectCSVDelimiter', () => {
+  it('ignores delimiters inside quoted headers', () => {
+    expect(detectCSVDelimiter('"Distance, km";"Time, h:m:s";Date\n1,2;3')).toBe(';');
+  });
+
+  it('only looks at the header row', () => {
+    expect(detectCSVDelimiter('Date\tDistance\n1,2,3,4')).toBe('\t');
+  });
+});
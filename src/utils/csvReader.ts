@@ -0,0 +1,113 @@
+export interface CSVRecord {
+  values: string[];
+  line: number; // 1-based line the record starts on
+  error?: string; // set when the record is malformed
+}
+
+export interface CSVRowError {
+  line: number;
+  reason: string;
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Pick the delimiter used in the header row: comma, semicolon (spreadsheets in
+ * locales with a decimal comma) or tab. Delimiters inside quotes are ignored.
+ */
+export const detectCSVDelimiter = (content: string): string => {
+  const counts: Record<string, number> = {};
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && DELIMITERS.includes(char)) {
+      counts[char] = (counts[char] || 0) + 1;
+    }
+  }
+
+  return DELIMITERS.reduce((best, delimiter) => (counts[delimiter] || 0) > (counts[best] || 0) ? delimiter : best);
+};
+
+/**
+ * Read CSV records one at a time following RFC 4180: quoted fields may hold
+ * delimiters, line breaks and doubled quotes (""), and rows may end in CRLF,
+ * LF or CR. A leading byte order mark is dropped and blank lines are skipped.
+ * Unquoted values are trimmed, as spreadsheets often pad cells.
+ */
+export function* readCSVRecords(content: string, delimiter = detectCSVDelimiter(content)): Generator<CSVRecord> {
+  let index = content.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let line = 1;
+
+  while (index < content.length) {
+    const startLine = line;
+    const values: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let wasQuoted = false;
+
+    const endField = () => {
+      values.push(wasQuoted ? field : field.trim());
+      field = '';
+      wasQuoted = false;
+    };
+
+    while (index < content.length) {
+      const char = content[index];
+
+      if (inQuotes) {
+        if (char === '"' && content[index + 1] === '"') {
+          field += '"';
+          index += 2;
+          continue;
+        }
+        if (char === '"') {
+          inQuotes = false;
+        } else {
+          if (char === '\n' || (char === '\r' && content[index + 1] !== '\n')) line++;
+          field += char;
+        }
+        index++;
+        continue;
+      }
+
+      if (char === delimiter) {
+        endField();
+        index++;
+        continue;
+      }
+
+      if (char === '\r' || char === '\n') {
+        index += char === '\r' && content[index + 1] === '\n' ? 2 : 1;
+        line++;
+        break;
+      }
+
+      // A quote opens a quoted field only at its start; elsewhere it is kept as text
+      if (char === '"' && !wasQuoted && !field.trim()) {
+        inQuotes = true;
+        wasQuoted = true;
+        field = '';
+      } else if (!wasQuoted || !/\s/.test(char)) {
+        field += char;
+      }
+      index++;
+    }
+
+    endField();
+
+    if (values.length === 1 && !values[0].trim() && !inQuotes) {
+      continue; // Skip blank lines
+    }
+
+    yield {
+      values,
+      line: startLine,
+      error: inQuotes ? 'Quoted field is never closed' : undefined
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicate, getMergeUpdates, getUnmergeUpdates } from './duplicateDetection';
+import { Run } from '../types';
+
+const makeRun = (overrides: Partial<Run> = {}): Run => ({
+  id: 'run-1',
+  user_id: 'user-1',
+  date: '2024-05-01',
+  distance: 5,
+  duration: 45,
+  pace: 9,
+  feeling_rating: 3,
+  ...overrides
+});
+
+describe('findDuplicate', () => {
+  it('skips a record with the same fingerprint, rounded to the stored precision', () => {
+    const existing = makeRun({ distance: 5.001, source_file: 'run.gpx' });
+    const check = findDuplicate({ date: '2024-05-01', distance: 5.004, duration: 45, source_file: 'run.gpx' }, [existing]);
+
+    expect(check).toEqual({ status: 'skipped', match: existing });
+  });
+
+  it('merges records within 2% of distance and duration', () => {
+    const existing = makeRun({ distance: 10, duration: 100 });
+
+    expect(findDuplicate({ date: '2024-05-01', distance: 10.19, duration: 101.9 }, [existing]).status).toBe('merged');
+    expect(findDuplicate({ date: '2024-05-01', distance: 10.25, duration: 100 }, [existing]).status).toBe('new');
+    expect(findDuplicate({ date: '2024-05-01', distance: 10, duration: 102.5 }, [existing]).status).toBe('new');
+  });
+
+  it('allows at least 0.05 miles and one minute on short runs', () => {
+    const existing = makeRun({ distance: 1, duration: 10 });
+
+    expect(findDuplicate({ date: '2024-05-01', distance: 1.04, duration: 11 }, [existing]).status).toBe('merged');
+    expect(findDuplicate({ date: '2024-05-01', distance: 1.06, duration: 10 }, [existing]).status).toBe('new');
+    expect(findDuplicate({ date: '2024-05-01', distance: 1, duration: 11.5 }, [existing]).status).toBe('new');
+  });
+
+  it('never matches runs on another date', () => {
+    expect(findDuplicate({ date: '2024-05-02', distance: 5, duration: 45 }, [makeRun()]).status).toBe('new');
+  });
+});
+
+describe('getMergeUpdates', () => {
+  it('fills only blank fields', () => {
+    const existing = makeRun({ route: 'Park loop', avg_heart_rate: 150, max_heart_rate: 170 });
+    const updates = getMergeUpdates(existing, {
+      route: 'Imported route',
+      notes: 'From the watch',
+      source_file: 'run.fit',
+      avg_heart_rate: 140,
+      max_heart_rate: 160,
+      elevation_gain: 120,
+      elevation_loss: 118
+    });
+
+    expect(updates).toEqual({ source_file: 'run.fit', notes: 'From the watch', elevation_gain: 120, elevation_loss: 118 });
+  });
+});
+
+describe('getUnmergeUpdates', () => {
+  it('clears merged fields unless they were changed since', () => {
+    const filled = { notes: 'From the watch', elevation_gain: 120, elevation_loss: 118 };
+    const run = makeRun({ ...filled, notes: 'Edited after import' });
+
+    expect(getUnmergeUpdates(run, filled)).toEqual({ elevation_gain: null, elevation_loss: null });
+  });
+});
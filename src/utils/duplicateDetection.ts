@@ -0,0 +1,120 @@
+import { Run, RunUpdates } from '../types';
+
+export type DuplicateStatus = 'new' | 'merged' | 'skipped';
+
+export interface DuplicateCheck {
+  status: DuplicateStatus;
+  match?: Run;
+}
+
+type RunFingerprintInput = Pick<Run, 'date' | 'distance' | 'duration' | 'source_file'>;
+
+// Tolerances for treating two records as the same run from different sources
+const DISTANCE_TOLERANCE = 0.02; // 2% of distance
+const MIN_DISTANCE_TOLERANCE = 0.05; // miles
+const DURATION_TOLERANCE = 0.02; // 2% of duration
+const MIN_DURATION_TOLERANCE = 1; // minutes
+
+/**
+ * Build a fingerprint from date, distance, duration and source file.
+ * Two records with the same fingerprint are the same import of the same run.
+ */
+export const getRunFingerprint = (run: RunFingerprintInput): string => {
+  return [
+    run.date,
+    run.distance.toFixed(2),
+    run.duration.toFixed(1),
+    run.source_file || ''
+  ].join('|');
+};
+
+const isWithinTolerance = (a: number, b: number, ratio: number, minimum: number): boolean => {
+  return Math.abs(a - b) <= Math.max(Math.max(a, b) * ratio, minimum);
+};
+
+/**
+ * Check an imported record against existing runs
+ * - skipped: identical fingerprint, the record was already imported from this file
+ * - merged: same date with matching distance and duration from another source
+ * - new: no matching run
+ */
+export const findDuplicate = (candidate: RunFingerprintInput, runs: Run[]): DuplicateCheck => {
+  const fingerprint = getRunFingerprint(candidate);
+  const exactMatch = runs.find(run => getRunFingerprint(run) === fingerprint);
+
+  if (exactMatch) {
+    return { status: 'skipped', match: exactMatch };
+  }
+
+  const closeMatch = runs.find(run =>
+    run.date === candidate.date &&
+    isWithinTolerance(run.distance, candidate.distance, DISTANCE_TOLERANCE, MIN_DISTANCE_TOLERANCE) &&
+    isWithinTolerance(run.duration, candidate.duration, DURATION_TOLERANCE, MIN_DURATION_TOLERANCE)
+  );
+
+  if (closeMatch) {
+    return { status: 'merged', match: closeMatch };
+  }
+
+  return { status: 'new' };
+};
+
+/**
+ * Fields to fill in on an existing run when merging an imported record into it.
+ * Only blanks are filled so manual edits are never overwritten.
+ */
+export const getMergeUpdates = (
+  existing: Run,
+  imported: Pick<Run, 'route' | 'notes' | 'source_file' | 'elevation_gain' | 'elevation_loss' | 'avg_heart_rate' | 'max_heart_rate' | 'moving_time' | 'elapsed_time' | 'start_time' | 'source_path'>
+): Partial<Omit<Run, 'id' | 'user_id'>> => {
+  const updates: Partial<Omit<Run, 'id' | 'user_id'>> = {};
+
+  if (!existing.source_file && imported.source_file) {
+    updates.source_file = imported.source_file;
+  }
+
+  if (!existing.route && imported.route) {
+    updates.route = imported.route;
+  }
+
+  if (!existing.notes && imported.notes) {
+    updates.notes = imported.notes;
+  }
+
+  if (existing.elevation_gain == null && imported.elevation_gain != null) {
+    updates.elevation_gain = imported.elevation_gain;
+    updates.elevation_loss = imported.elevation_loss;
+  }
+
+  if (existing.avg_heart_rate == null && imported.avg_heart_rate != null) {
+    updates.avg_heart_rate = imported.avg_heart_rate;
+    updates.max_heart_rate = imported.max_heart_rate;
+  }
+
+  if (existing.moving_time == null && imported.moving_time != null) {
+    updates.moving_time = imported.moving_time;
+  }
+
+  if (existing.elapsed_time == null && imported.elapsed_time != null) {
+    updates.elapsed_time = imported.elapsed_time;
+  }
+
+  if (!existing.start_time && imported.start_time) {
+    updates.start_time = imported.start_time;
+  }
+
+  if (!existing.source_path && imported.source_path) {
+    updates.source_path = imported.source_path;
+  }
+
+  return updates;
+};
+
+/**
+ * Clear the fields a merge filled in, to undo it.
+ * Fields changed since the merge are left as they are.
+ */
+export const getUnmergeUpdates = (run: Run, filled: RunUpdates): RunUpdates => {
+  const fields = (Object.keys(filled) as (keyof RunUpdates)[]).filter(field => run[field] === filled[field]);
+  return Object.fromEntries(fields.map(field => [field, null]));
+};
@@ -0,0 +1,49 @@
+import { unzipSync, gunzipSync } from 'fflate';
+
+// Activity files picked out of generic archives, optionally gzipped
+const ENTRY_EXTENSIONS = ['tcx', 'gpx', 'fit', 'csv'];
+
+/**
+ * Check whether an archive entry is an activity file worth parsing.
+ * Folders, macOS resource forks and hidden files are skipped.
+ */
+export const isActivityEntry = (name: string): boolean => {
+  const baseName = name.split('/').pop() || '';
+  if (!baseName || baseName.startsWith('.') || name.startsWith('__MACOSX/')) return false;
+
+  const extension = baseName.toLowerCase().replace(/\.gz$/, '').split('.').pop() || '';
+  return ENTRY_EXTENSIONS.includes(extension);
+};
+
+/**
+ * Names of the entries in a zip, read without decompressing any of them,
+ * so an archive can be routed before it is unpacked once
+ */
+export const listZipEntries = (buffer: ArrayBuffer): string[] => {
+  const names: string[] = [];
+  unzipSync(new Uint8Array(buffer), {
+    filter: file => {
+      names.push(file.name);
+      return false;
+    }
+  });
+  return names;
+};
+
+/**
+ * Unpack a zip of activity files (e.g. a watch or service bulk export) in the browser.
+ * Only TCX, GPX, FIT and CSV entries are extracted.
+ */
+export const unzipFileArchive = (buffer: ArrayBuffer): Record<string, Uint8Array> => {
+  return unzipSync(new Uint8Array(buffer), {
+    filter: file => isActivityEntry(file.name)
+  });
+};
+
+/**
+ * Decompress a .gz file into the file it holds, named without the .gz suffix
+ */
+export const gunzipFile = async (file: File): Promise<File> => {
+  const bytes = gunzipSync(new Uint8Array(await file.arrayBuffer()));
+  return new File([bytes], file.name.replace(/\.gz$/i, ''));
+};
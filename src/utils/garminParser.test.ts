@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { getLocalDate, parseGarminFile } from './garminParser';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+
+// Base types used below
+const UINT8 = 0x02;
+const UINT32 = 0x86;
+const ENUM = 0x00;
+
+interface FITWriter {
+  u8: (value: number) => void;
+  u16: (value: number) => void;
+  u32: (value: number) => void;
+}
+
+// Write a little-endian FIT file from definition and data messages
+const buildFIT = (write: (fit: FITWriter) => void): ArrayBuffer => {
+  const data: number[] = [];
+  const writer: FITWriter = {
+    u8: value => data.push(value & 0xff),
+    u16: value => { writer.u8(value); writer.u8(value >> 8); },
+    u32: value => { writer.u16(value & 0xffff); writer.u16(value >>> 16); }
+  };
+  write(writer);
+
+  const header = new DataView(new ArrayBuffer(12));
+  header.setUint8(0, 12);
+  header.setUint8(1, 0x10); // protocol version
+  header.setUint16(2, 2093, true); // profile version
+  header.setUint32(4, data.length, true);
+  Array.from('.FIT').forEach((char, index) => header.setUint8(8 + index, char.charCodeAt(0)));
+
+  return new Uint8Array([...new Uint8Array(header.buffer), ...data]).buffer;
+};
+
+const writeDefinition = (
+  fit: FITWriter,
+  localType: number,
+  globalMessageNumber: number,
+  fields: [number, number, number][],
+  developerFields: [number, number, number][] = []
+) => {
+  fit.u8(0x40 | (developerFields.length > 0 ? 0x20 : 0) | localType);
+  fit.u8(0); // reserved
+  fit.u8(0); // little endian
+  fit.u16(globalMessageNumber);
+  fit.u8(fields.length);
+  fields.flat().forEach(fit.u8);
+  if (developerFields.length > 0) {
+    fit.u8(developerFields.length);
+    developerFields.flat().forEach(fit.u8);
+  }
+};
+
+const toFITTime = (iso: string) => Date.parse(iso) / 1000 - FIT_EPOCH_OFFSET;
+
+describe('parseGarminFile with FIT files', () => {
+  // Low five bits set to 30, so the first compressed offset below rolls over
+  const start = (toFITTime('2024-05-01T07:00:00Z') & ~0x1f) + 30;
+  const fitTimeToISO = (timestamp: number) => new Date((timestamp + FIT_EPOCH_OFFSET) * 1000).toISOString();
+
+  const buffer = buildFIT(fit => {
+    // Record with a timestamp, followed by two bytes of developer data
+    writeDefinition(fit, 0, 20, [[253, 4, UINT32], [5, 4, UINT32], [3, 1, UINT8]], [[0, 2, 0]]);
+    fit.u8(0x00);
+    fit.u32(start);
+    fit.u32(0);
+    fit.u8(120);
+    fit.u8(0xaa);
+    fit.u8(0xbb);
+
+    // Records timed by compressed timestamp headers
+    writeDefinition(fit, 1, 20, [[5, 4, UINT32], [3, 1, UINT8]]);
+    fit.u8(0x80 | (1 << 5) | 2);
+    fit.u32(80000);
+    fit.u8(130);
+    fit.u8(0x80 | (1 << 5) | 5);
+    fit.u32(160934);
+    fit.u8(140);
+
+    // Session: start time, elapsed and timer time in ms, distance in cm, sport
+    writeDefinition(fit, 2, 18, [[2, 4, UINT32], [7, 4, UINT32], [8, 4, UINT32], [9, 4, UINT32], [5, 1, ENUM]]);
+    fit.u8(0x02);
+    fit.u32(start);
+    fit.u32(600000);
+    fit.u32(540000);
+    fit.u32(160934);
+    fit.u8(1);
+  });
+
+  it('reads compressed timestamps relative to the last full timestamp', async () => {
+    const [run] = (await parseGarminFile(buffer, 'fit'))!;
+
+    expect(run.stream?.map(point => point.time)).toEqual([
+      fitTimeToISO(start),
+      fitTimeToISO(start + 4), // offset 2 is below the last low bits (30), so it rolled over
+      fitTimeToISO(start + 7)
+    ]);
+    expect(run.stream?.map(point => point.heart_rate)).toEqual([120, 130, 140]);
+  });
+
+  it('skips developer fields and reads the session that follows them', async () => {
+    const [run] = (await parseGarminFile(buffer, 'fit'))!;
+
+    expect(run).toMatchObject({
+      start_time: fitTimeToISO(start),
+      distance: 1,
+      duration: 9,
+      elapsed_time: 10,
+      notes: 'Imported from FIT file - Sport: Running'
+    });
+  });
+});
+
+describe('getLocalDate', () => {
+  it('dates runs around the spring forward change in the local day', () => {
+    expect(getLocalDate(new Date('2024-03-10T04:59:00Z'), 'America/New_York')).toBe('2024-03-09');
+    expect(getLocalDate(new Date('2024-03-10T07:30:00Z'), 'America/New_York')).toBe('2024-03-10');
+    expect(getLocalDate(new Date('2024-03-30T23:30:00Z'), 'Europe/Berlin')).toBe('2024-03-31');
+  });
+
+  it('dates runs around the fall back change in the local day', () => {
+    expect(getLocalDate(new Date('2024-11-03T03:59:00Z'), 'America/New_York')).toBe('2024-11-02');
+    // 23:30 standard time; still daylight time would put it on the next day
+    expect(getLocalDate(new Date('2024-11-04T04:30:00Z'), 'America/New_York')).toBe('2024-11-03');
+    expect(getLocalDate(new Date('2024-04-06T13:30:00Z'), 'Australia/Sydney')).toBe('2024-04-07');
+  });
+});
@@ -1,7 +1,11 @@
 import { format, parse } from 'date-fns';
 import { calculatePace } from './calculations';
+import { CsvColumnMapping, CsvDistanceUnit, CsvDurationUnit, CsvRunField, RunLapData, RunStreamPoint } from '../types';
+import { CsvProfile, detectCSVProfile, isProfileRunningActivity } from './csvProfiles';
+import { parseXMLAttributes, parseXMLStream } from './xmlStream';
+import { CSVRowError, readCSVRecords } from './csvReader';
 
-interface ParsedRunData {
+export interface ParsedRunData {
   date: string;
   distance: number;
   duration: number;
@@ -9,41 +13,234 @@ interface ParsedRunData {
   route?: string;
   notes?: string;
   feeling_rating: number;
+  start_time?: string; // ISO timestamp (UTC) of the start, from files that record one
+  elevation_gain?: number; // in feet, from the track's altitude
+  elevation_loss?: number; // in feet
+  avg_heart_rate?: number; // in bpm
+  max_heart_rate?: number; // in bpm
+  moving_time?: number; // in minutes, excluding pauses
+  elapsed_time?: number; // in minutes, from start to finish
+  raw_distance?: number; // in miles, summed over unfiltered GPS points (shown in the import preview)
+  laps?: RunLapData[]; // device laps from TCX/FIT files
+  stream?: RunStreamPoint[]; // GPS track from TCX/GPX/FIT files
 }
 
-// Parse CSV files with multiple runs
-const parseCSVFile = (content: string): ParsedRunData[] | null => {
+// Units a CSV file's distance and pace columns were read in, and where that came from
+export interface CSVUnits {
+  distance: Exclude<CsvDistanceUnit, 'auto'>;
+  pace: 'mi' | 'km';
+  source: 'mapping' | 'header' | 'values' | 'default';
+}
+
+// Runs read from a CSV file, and the rows that were skipped with the reason why
+export interface CSVParseResult {
+  runs: ParsedRunData[];
+  errors: CSVRowError[];
+}
+
+// Conversion factors from CSV distance units to miles
+const CSV_DISTANCE_TO_MILES: Record<Exclude<CsvDistanceUnit, 'auto'>, number> = {
+  mi: 1,
+  km: 0.621371,
+  m: 0.000621371
+};
+
+// Conversion factors from min/km or min/mi paces to min/mi
+const CSV_PACE_TO_MIN_PER_MILE: Record<CSVUnits['pace'], number> = {
+  mi: 1,
+  km: 1.609344
+};
+
+// Conversion factors from plain-number CSV durations to minutes
+const CSV_DURATION_TO_MINUTES: Record<Exclude<CsvDurationUnit, 'auto'>, number> = {
+  min: 1,
+  s: 1 / 60,
+  ms: 1 / 60000
+};
+
+// Parse CSV files with multiple runs, using a vendor profile or guessing the columns from the headers
+// distanceUnit overrides the detected unit when the user knows what their export uses
+const parseCSVFile = (
+  content: string,
+  distanceUnit: CsvDistanceUnit = 'auto',
+  onProgress?: (progress: number) => void
+): CSVParseResult | null => {
+  const mapping = getCSVFileMapping(content, distanceUnit);
+  if (!mapping) {
+    console.error('Error parsing CSV: CSV file must have at least a header and one data row');
+    return null;
+  }
+
+  return parseCSVWithMapping(content, mapping, detectCSVProfile(readCSVPreview(content)?.headers || []), onProgress);
+};
+
+// Column mapping parseCSVFile uses for a file, so callers can report the units it was read in
+const getCSVFileMapping = (content: string, distanceUnit: CsvDistanceUnit = 'auto'): CsvColumnMapping | null => {
+  const preview = readCSVPreview(content);
+  if (!preview) return null;
+
+  const profile = detectCSVProfile(preview.headers);
+  const mapping = profile ? profile.mapping(preview.headers) : detectCSVMapping(preview.headers);
+  return distanceUnit === 'auto' ? mapping : { ...mapping, distance_unit: distanceUnit };
+};
+
+// Work out the distance and pace units from the mapping, then the headers, then the values
+// Files without any unit hint are read as miles, the unit runs are stored in
+const detectCSVUnits = (content: string, mapping: CsvColumnMapping): CSVUnits => {
+  const preview = readCSVPreview(content, 20);
+  const headers = preview?.headers || [];
+  const rows = preview?.rows || [];
+  const distanceIndex = mapping.columns.distance ? headers.indexOf(mapping.columns.distance) : -1;
+  const paceIndex = mapping.columns.pace ? headers.indexOf(mapping.columns.pace) : -1;
+
+  const findValueUnit = (index: number) => {
+    if (index === -1) return null;
+    for (const row of rows) {
+      const unit = getUnitFromText(row[index] || '');
+      if (unit) return unit;
+    }
+    return null;
+  };
+
+  let distance: CSVUnits['distance'] = 'mi';
+  let source: CSVUnits['source'] = 'default';
+  const headerUnit = getUnitFromText(mapping.columns.distance || '') || getUnitFromText(mapping.columns.pace || '');
+  const valueUnit = findValueUnit(distanceIndex) || findValueUnit(paceIndex);
+
+  if (mapping.distance_unit !== 'auto') {
+    distance = mapping.distance_unit;
+    source = 'mapping';
+  } else if (headerUnit) {
+    distance = headerUnit;
+    source = 'header';
+  } else if (valueUnit) {
+    distance = valueUnit;
+    source = 'values';
+  }
+
+  // Pace follows its own header or values, falling back to the distance unit
+  const paceUnit = mapping.pace_unit && mapping.pace_unit !== 'auto'
+    ? mapping.pace_unit
+    : getUnitFromText(mapping.columns.pace || '') || findValueUnit(paceIndex) || distance;
+
+  return { distance, pace: paceUnit === 'mi' ? 'mi' : 'km', source };
+};
+
+// Read a distance unit written in a header or value, e.g. "Distance (km)", "5.2 mi" or "4:30 min/km"
+const getUnitFromText = (text: string): CSVUnits['distance'] | null => {
+  const lower = text.toLowerCase().replace(/[\d.,:]+/g, ' ');
+  if (/\bkm\b|kilomet/.test(lower)) return 'km';
+  if (/\bmi\b|\bmiles?\b/.test(lower)) return 'mi';
+  if (/\bm\b|\bmet(er|re)s?\b/.test(lower)) return 'm';
+  return null;
+};
+
+// Parse a number that may carry units, thousands separators or a decimal comma ("5,01")
+const parseLocaleNumber = (text: string): number => {
+  const value = text.replace(/[^\d.,-]/g, '');
+  const isDecimalComma = /^-?\d+,\d+$/.test(value) && !/^-?\d{1,3},\d{3}$/.test(value);
+  return parseFloat(isDecimalComma ? value.replace(',', '.') : value.replace(/,/g, ''));
+};
+
+// Read the headers and first data rows of a CSV file, for the column mapping wizard
+const readCSVPreview = (content: string, rowCount = 5): { headers: string[]; rows: string[][] } | null => {
+  const records: string[][] = [];
+  for (const record of readCSVRecords(content)) {
+    records.push(record.values);
+    if (records.length > rowCount) break;
+  }
+  if (records.length < 2) return null;
+
+  return { headers: records[0], rows: records.slice(1) };
+};
+
+// Guess the column mapping from common Garmin Connect and Strava header names
+const detectCSVMapping = (headers: string[]): CsvColumnMapping => {
+  const columns: CsvColumnMapping['columns'] = {};
+  const assign = (field: CsvRunField, possibleNames: string[]) => {
+    const index = findColumnIndex(headers, possibleNames);
+    if (index !== -1) columns[field] = headers[index];
+  };
+
+  assign('date', ['Date', 'date']);
+  assign('distance', ['Distance', 'distance']);
+  assign('duration', ['Time', 'time', 'Moving Time', 'Elapsed Time']);
+  assign('activity_type', ['Activity Type', 'activity type', 'Sport', 'sport']);
+  assign('route', ['Title', 'title', 'Name', 'name']);
+  assign('pace', ['Avg Pace', 'avg pace', 'Average Pace', 'pace']);
+  assign('notes', ['Notes', 'notes']);
+  assign('feeling_rating', ['Feeling', 'feeling']);
+
+  return { columns, date_format: 'auto', distance_unit: 'auto' };
+};
+
+// Parse CSV files with multiple runs using an explicit column mapping
+// A vendor profile adds its own activity-type filter and import notes
+// Returns null when the file or its mapping is unusable; skipped rows are reported with their line number
+// onProgress receives the fraction of lines read (0-1)
+const parseCSVWithMapping = (
+  content: string,
+  mapping: CsvColumnMapping,
+  profile?: CsvProfile | null,
+  onProgress?: (progress: number) => void
+): CSVParseResult | null => {
   try {
-    const lines = content.split('\n').filter(line => line.trim());
-    if (lines.length < 2) {
+    const lineCount = onProgress ? countLines(content) : 0;
+    const records = readCSVRecords(content);
+    const headerRecord = records.next();
+    if (headerRecord.done) {
       throw new Error('CSV file must have at least a header and one data row');
     }
 
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
+    const headers = headerRecord.value.values;
     const runs: ParsedRunData[] = [];
+    const errors: CSVRowError[] = [];
+    let rowCount = 0;
 
-    // Find required column indices
-    const dateIndex = findColumnIndex(headers, ['Date', 'date']);
-    const distanceIndex = findColumnIndex(headers, ['Distance', 'distance']);
-    const timeIndex = findColumnIndex(headers, ['Time', 'time', 'Moving Time', 'Elapsed Time']);
-    const activityTypeIndex = findColumnIndex(headers, ['Activity Type', 'activity type', 'Sport', 'sport']);
-    const titleIndex = findColumnIndex(headers, ['Title', 'title', 'Name', 'name']);
-    const paceIndex = findColumnIndex(headers, ['Avg Pace', 'avg pace', 'Average Pace', 'pace']);
+    // Resolve mapped header names to column indices
+    const column = (field: CsvRunField): number => {
+      const header = mapping.columns[field];
+      return header ? headers.indexOf(header) : -1;
+    };
+    const dateIndex = column('date');
+    const distanceIndex = column('distance');
+    const timeIndex = column('duration');
+    const activityTypeIndex = column('activity_type');
+    const titleIndex = column('route');
+    const paceIndex = column('pace');
+    const notesIndex = column('notes');
+    const feelingIndex = column('feeling_rating');
+    const units = detectCSVUnits(content, mapping);
 
     if (dateIndex === -1 || distanceIndex === -1 || timeIndex === -1) {
       throw new Error('CSV must contain Date, Distance, and Time columns');
     }
 
-    for (let i = 1; i < lines.length; i++) {
+    for (const { values, line, error: readError } of records) {
+      // Vendor summaries only hold the totals in their first row
+      if (profile?.firstRowOnly && rowCount > 0) break;
+      rowCount++;
+      onProgress?.(line / lineCount);
+
+      const skipRow = (reason: string) => errors.push({ line, reason });
+      if (readError) {
+        skipRow(readError);
+        continue;
+      }
+
       try {
-        const values = parseCSVLine(lines[i]);
-        if (values.length < Math.max(dateIndex, distanceIndex, timeIndex) + 1) {
-          continue; // Skip incomplete rows
+        const requiredColumns = Math.max(dateIndex, distanceIndex, timeIndex) + 1;
+        if (values.length < requiredColumns) {
+          skipRow(`Expected at least ${requiredColumns} columns, found ${values.length}`);
+          continue;
         }
 
         // Filter for running activities only
-        const activityType = activityTypeIndex !== -1 ? values[activityTypeIndex]?.toLowerCase() : '';
-        if (activityType && !activityType.includes('run') && !activityType.includes('jog')) {
+        const activityType = activityTypeIndex !== -1 ? values[activityTypeIndex] : '';
+        const isRunning = profile
+          ? isProfileRunningActivity(profile, activityType)
+          : isRunningActivity(activityType);
+        if (activityType && !isRunning) {
           continue; // Skip non-running activities
         }
 
@@ -52,17 +249,20 @@ const parseCSVFile = (content: string): ParsedRunData[] | null => {
         const timeStr = values[timeIndex];
 
         if (!dateStr || !distanceStr || !timeStr) {
-          continue; // Skip rows with missing essential data
+          skipRow(`Missing ${!dateStr ? 'date' : !distanceStr ? 'distance' : 'time'}`);
+          continue;
         }
 
-        // Parse date (handle various formats)
+        // Parse date with the chosen format, or guess between common formats
         let parsedDate: Date;
         try {
-          // Try common date formats
-          if (dateStr.includes('/')) {
+          if (mapping.date_format !== 'auto') {
+            parsedDate = parse(dateStr, mapping.date_format, new Date());
+          } else if (dateStr.includes('/')) {
             parsedDate = parse(dateStr, 'M/d/yyyy', new Date());
-          } else if (dateStr.includes('-')) {
-            parsedDate = new Date(dateStr);
+          } else if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+            // A bare ISO date is a calendar day, not UTC midnight
+            parsedDate = parse(dateStr, 'yyyy-MM-dd', new Date());
           } else {
             parsedDate = new Date(dateStr);
           }
@@ -71,18 +271,16 @@ const parseCSVFile = (content: string): ParsedRunData[] | null => {
             throw new Error('Invalid date');
           }
         } catch {
-          continue; // Skip rows with invalid dates
+          skipRow(`Invalid date "${dateStr}"`);
+          continue;
         }
 
-        // Parse distance (remove units and convert to miles)
-        let distance = parseFloat(distanceStr.replace(/[^\d.-]/g, ''));
+        // Parse distance and convert to miles, honoring a unit written next to the value
+        const rowDistanceUnit = mapping.distance_unit === 'auto' ? getUnitFromText(distanceStr) || units.distance : units.distance;
+        const distance = parseLocaleNumber(distanceStr) * CSV_DISTANCE_TO_MILES[rowDistanceUnit];
         if (isNaN(distance) || distance <= 0) {
-          continue; // Skip invalid distances
-        }
-
-        // Convert km to miles if needed (assume km if distance > 50 for a single run)
-        if (distance > 50) {
-          distance = distance * 0.621371;
+          skipRow(`Invalid distance "${distanceStr}"`);
+          continue;
         }
 
         // Parse time (handle various formats: HH:MM:SS, MM:SS, or decimal minutes)
@@ -96,20 +294,25 @@ const parseCSVFile = (content: string): ParsedRunData[] | null => {
             // MM:SS
             durationInMinutes = timeParts[0] + timeParts[1] / 60;
           } else {
-            continue; // Skip invalid time format
+            skipRow(`Invalid time "${timeStr}"`);
+            continue;
           }
         } else {
-          // Assume decimal minutes
-          durationInMinutes = parseFloat(timeStr.replace(/[^\d.-]/g, ''));
+          // Plain numbers are minutes unless the mapping says otherwise
+          const durationUnit = mapping.duration_unit && mapping.duration_unit !== 'auto' ? mapping.duration_unit : 'min';
+          durationInMinutes = parseFloat(timeStr.replace(/[^\d.-]/g, '')) * CSV_DURATION_TO_MINUTES[durationUnit];
         }
 
         if (isNaN(durationInMinutes) || durationInMinutes <= 0) {
-          continue; // Skip invalid durations
+          skipRow(`Invalid time "${timeStr}"`);
+          continue;
         }
 
         // Get additional data
         const title = titleIndex !== -1 ? values[titleIndex] : '';
         const route = title || 'Imported from CSV';
+        const notes = notesIndex !== -1 ? values[notesIndex] : '';
+        const feeling = feelingIndex !== -1 ? parseInt(values[feelingIndex], 10) : NaN;
         
         // Calculate or use provided pace
         let pace: number;
@@ -119,8 +322,10 @@ const parseCSVFile = (content: string): ParsedRunData[] | null => {
             const [min, sec] = paceStr.split(':').map(p => parseInt(p.replace(/[^\d]/g, '')));
             pace = min + sec / 60;
           } else {
-            pace = parseFloat(paceStr.replace(/[^\d.-]/g, ''));
+            pace = parseLocaleNumber(paceStr);
           }
+          // Convert min/km to min/mi
+          pace = pace * CSV_PACE_TO_MIN_PER_MILE[units.pace];
         } else {
           pace = calculatePace(distance, durationInMinutes);
         }
@@ -131,22 +336,36 @@ const parseCSVFile = (content: string): ParsedRunData[] | null => {
           duration: Math.round(durationInMinutes * 100) / 100,
           pace: Math.round(pace * 100) / 100,
           route,
-          notes: 'Imported from CSV file',
-          feeling_rating: 3 // Default to average feeling
+          notes: notes || `Imported from ${profile ? `${profile.name} CSV` : 'CSV file'}`,
+          feeling_rating: feeling >= 1 && feeling <= 5 ? feeling : 3 // Default to average feeling
         });
       } catch (error) {
-        console.warn(`Skipping row ${i + 1}:`, error);
-        continue; // Skip problematic rows
+        skipRow(error instanceof Error ? error.message : 'Could not read row');
       }
     }
 
-    return runs.length > 0 ? runs : null;
+    if (rowCount === 0) {
+      throw new Error('CSV file must have at least a header and one data row');
+    }
+
+    return { runs, errors };
   } catch (error) {
     console.error('Error parsing CSV:', error);
     return null;
   }
 };
 
+// Number of lines in a CSV file, to report progress by the rows read
+const countLines = (content: string): number => {
+  return (content.match(/\r\n|\r|\n/g)?.length || 0) + 1;
+};
+
+// Helper function to check an activity/sport type label for running
+const isRunningActivity = (activityType: string): boolean => {
+  const type = activityType.toLowerCase();
+  return type.includes('run') || type.includes('jog');
+};
+
 // Helper function to find column index by multiple possible names
 const findColumnIndex = (headers: string[], possibleNames: string[]): number => {
   for (const name of possibleNames) {
@@ -156,180 +375,932 @@ const findColumnIndex = (headers: string[], possibleNames: string[]): number =>
   return -1;
 };
 
-// Helper function to parse CSV line handling quoted values
-const parseCSVLine = (line: string): string[] => {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
+// Parse TCX (Training Center XML) files
+// History exports hold several activities, so every running Activity becomes its own run;
+// onSkipActivity receives the sport of each activity left out
+const parseTCX = (
+  content: string,
+  onProgress?: (progress: number) => void,
+  onSkipActivity?: (sport: string) => void
+): ParsedRunData[] | null => {
+  try {
+    const activities: TCXActivity[] = [];
+    let activity: TCXActivity | null = null;
+    let lap: TCXLap | null = null;
+    let point: Partial<RunStreamPoint> | null = null;
+
+    parseXMLStream(content, {
+      onOpen: (name, attributes) => {
+        if (name === 'Activity') {
+          activity = { sport: attributes.Sport || 'Running', startTime: attributes.Id, laps: [], stream: [], trackPointCount: 0 };
+        } else if (name === 'Lap' && activity) {
+          lap = {};
+          activity.laps.push(lap);
+        } else if (name === 'Trackpoint' && activity) {
+          point = {};
+          activity.trackPointCount++;
+        }
+      },
+      onClose: (name, text, path) => {
+        const parent = path[path.length - 2];
+
+        if (name === 'Activity' && activity) {
+          activities.push(activity);
+          activity = null;
+        } else if (name === 'Id' && parent === 'Activity' && activity) {
+          activity.startTime = activity.startTime || text;
+        } else if (name === 'Lap') {
+          lap = null;
+        } else if (name === 'Trackpoint' && activity && point) {
+          // Keep the track stream for maps and splits
+          if (point.time) activity.stream.push(point as RunStreamPoint);
+          point = null;
+        } else if (point) {
+          // Track point fields
+          if (name === 'Time' && parent === 'Trackpoint') point.time = parseOptionalTime(text);
+          if (name === 'LatitudeDegrees') point.lat = parseOptionalNumber(text);
+          if (name === 'LongitudeDegrees') point.lon = parseOptionalNumber(text);
+          if (name === 'AltitudeMeters') point.elevation = parseOptionalNumber(text);
+          if (name === 'Value' && parent === 'HeartRateBpm') point.heart_rate = parseOptionalNumber(text);
+        } else if (lap) {
+          // Lap totals are direct children; Track points carry their own DistanceMeters
+          if (name === 'DistanceMeters' && parent === 'Lap') lap.distance = parseOptionalNumber(text);
+          if (name === 'TotalTimeSeconds' && parent === 'Lap') lap.time = parseOptionalNumber(text);
+          if (name === 'Value' && parent === 'AverageHeartRateBpm' && path[path.length - 3] === 'Lap') {
+            lap.avgHeartRate = parseOptionalNumber(text);
+          }
+        }
+      }
+    }, onProgress);
+
+    if (activities.length === 0) {
+      throw new Error('No activity found in TCX file');
     }
+
+    const runs: ParsedRunData[] = [];
+    activities.forEach((activity, index) => {
+      if (!isRunningActivity(activity.sport)) {
+        onSkipActivity?.(activity.sport);
+        return;
+      }
+
+      try {
+        runs.push(parseTCXActivity(activity));
+      } catch (error) {
+        console.warn(`Skipping TCX activity ${index + 1}:`, error);
+      }
+    });
+
+    return runs.length > 0 ? runs : null;
+  } catch (error) {
+    console.error('Error parsing TCX:', error);
+    return null;
   }
-  
-  result.push(current.trim());
-  return result;
 };
 
-// Parse TCX (Training Center XML) files
-const parseTCX = (content: string): ParsedRunData | null => {
-  try {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(content, 'text/xml');
-    
-    // Check for parsing errors
-    const parserError = xmlDoc.querySelector('parsererror');
-    if (parserError) {
-      throw new Error('Invalid XML format');
+// Fields collected from a TCX Lap element
+interface TCXLap {
+  distance?: number; // in meters
+  time?: number; // in seconds
+  avgHeartRate?: number;
+}
+
+// Fields collected from a TCX Activity element
+interface TCXActivity {
+  sport: string;
+  startTime?: string;
+  laps: TCXLap[];
+  stream: RunStreamPoint[];
+  trackPointCount: number;
+}
+
+// Build a run from a single TCX Activity using only its own laps and track points
+const parseTCXActivity = (activity: TCXActivity): ParsedRunData => {
+  const startTime = activity.startTime;
+  if (!startTime) {
+    throw new Error('No start time found');
+  }
+
+  // Sum the laps to get total distance and time
+  const lapData: RunLapData[] = [];
+  let totalDistance = 0;
+  let totalTime = 0;
+
+  activity.laps.forEach(lap => {
+    if (lap.distance !== undefined && lap.time !== undefined) {
+      totalDistance += lap.distance;
+      totalTime += lap.time;
+      lapData.push(toLapData(lap.distance, lap.time, lap.avgHeartRate));
     }
+  });
 
-    const activity = xmlDoc.querySelector('Activity');
-    if (!activity) {
-      throw new Error('No activity found in TCX file');
+  // Convert meters to miles and seconds to minutes
+  const distanceInMiles = totalDistance * 0.000621371;
+  const durationInMinutes = totalTime / 60;
+
+  if (distanceInMiles === 0 || durationInMinutes === 0) {
+    throw new Error('Invalid distance or duration data');
+  }
+
+  const stream = activity.stream;
+  const routeNote = activity.trackPointCount > 0 ? `Imported from Garmin (${activity.trackPointCount} GPS points)` : undefined;
+
+  return {
+    date: getLocalDate(new Date(startTime)),
+    start_time: new Date(startTime).toISOString(),
+    distance: Math.round(distanceInMiles * 100) / 100,
+    duration: Math.round(durationInMinutes * 100) / 100,
+    pace: calculatePace(distanceInMiles, durationInMinutes),
+    route: routeNote,
+    notes: `Imported from TCX file - Sport: ${activity.sport}`,
+    feeling_rating: 3, // Default to average feeling
+    ...calculateElevationChange(stream),
+    ...calculateHeartRateStats(stream),
+    ...calculateMovingTime(stream),
+    laps: lapData.length > 0 ? lapData : undefined,
+    stream: stream.length > 0 ? stream : undefined
+  };
+};
+
+// Parse GPX (GPS Exchange Format) files
+// defaultRoute names the run when the track has no name
+const parseGPX = (
+  content: string,
+  onProgress?: (progress: number) => void,
+  defaultRoute = (pointCount: number): string | undefined => `Imported from Garmin (${pointCount} GPS points)`
+): ParsedRunData | null => {
+  try {
+    let hasTrack = false;
+    let trackName: string | undefined;
+    const trackPoints: Partial<RunStreamPoint>[] = [];
+    let point: Partial<RunStreamPoint> | null = null;
+
+    parseXMLStream(content, {
+      onOpen: (name, attributes) => {
+        if (name === 'trk') {
+          hasTrack = true;
+        } else if (name === 'trkpt') {
+          point = {
+            lat: parseOptionalNumber(attributes.lat),
+            lon: parseOptionalNumber(attributes.lon)
+          };
+        }
+      },
+      onClose: (name, text, path) => {
+        const parent = path[path.length - 2];
+
+        if (name === 'name' && parent === 'trk' && trackName === undefined) {
+          trackName = text;
+        } else if (name === 'trkpt' && point) {
+          trackPoints.push(point);
+          point = null;
+        } else if (point) {
+          if (name === 'time' && parent === 'trkpt') point.time = text;
+          if (name === 'ele' && parent === 'trkpt') point.elevation = parseOptionalNumber(text);
+          // Heart rate lives in the Garmin TrackPointExtension (gpxtpx:hr)
+          if (name === 'hr') point.heart_rate = parseOptionalNumber(text);
+        }
+      }
+    }, onProgress);
+
+    if (!hasTrack) {
+      throw new Error('No track found in GPX file');
     }
 
-    // Get activity date - try both attribute and element approaches
-    let startTime = activity.getAttribute('Id');
-    if (!startTime) {
-      const idElement = activity.querySelector('Id');
-      startTime = idElement?.textContent || null;
+    if (trackPoints.length < 2) {
+      throw new Error('Insufficient track points for analysis');
     }
+
+    // Get start and end times
+    const startTimeText = trackPoints[0].time;
+    const endTimeText = trackPoints[trackPoints.length - 1].time;
     
-    if (!startTime) {
-      throw new Error('No start time found');
+    if (!startTimeText || !endTimeText) {
+      throw new Error('No time data found in track points');
     }
 
-    // Parse laps to get total distance and time
-    const laps = xmlDoc.querySelectorAll('Lap');
-    let totalDistance = 0;
-    let totalTime = 0;
+    const startTime = new Date(startTimeText);
+    const endTime = new Date(endTimeText);
+    
+    // Calculate duration in minutes
+    const durationInMinutes = (endTime.getTime() - startTime.getTime()) / (1000 * 60);
 
-    laps.forEach(lap => {
-      const distanceElement = lap.querySelector('DistanceMeters');
-      const timeElement = lap.querySelector('TotalTimeSeconds');
-      
-      if (distanceElement && timeElement) {
-        totalDistance += parseFloat(distanceElement.textContent || '0');
-        totalTime += parseFloat(timeElement.textContent || '0');
-      }
+    // Keep the track stream for maps and splits
+    const stream: RunStreamPoint[] = trackPoints.flatMap(trackPoint => {
+      const time = parseOptionalTime(trackPoint.time);
+      return time ? [{ ...trackPoint, time }] : [];
     });
 
-    // Convert meters to miles and seconds to minutes
-    const distanceInMiles = totalDistance * 0.000621371;
-    const durationInMinutes = totalTime / 60;
+    // Calculate distance using Haversine formula, with GPS noise filtered out
+    const trackDistance = calculateTrackDistance(stream);
+    const distanceInMiles = trackDistance.filtered * 0.621371; // Convert km to miles
 
     if (distanceInMiles === 0 || durationInMinutes === 0) {
       throw new Error('Invalid distance or duration data');
     }
 
-    // Get sport type for notes
-    const sport = activity.getAttribute('Sport') || 'Running';
-    
-    // Extract track points for route name (simplified)
-    const trackPoints = xmlDoc.querySelectorAll('Trackpoint');
-    const routeNote = trackPoints.length > 0 ? `Imported from Garmin (${trackPoints.length} GPS points)` : undefined;
+    // Use the track name if available
+    const routeNote = trackName || defaultRoute(trackPoints.length);
 
     return {
-      date: format(new Date(startTime), 'yyyy-MM-dd'),
+      date: getLocalDate(startTime),
+      start_time: startTime.toISOString(),
       distance: Math.round(distanceInMiles * 100) / 100,
       duration: Math.round(durationInMinutes * 100) / 100,
       pace: calculatePace(distanceInMiles, durationInMinutes),
       route: routeNote,
-      notes: `Imported from TCX file - Sport: ${sport}`,
-      feeling_rating: 3 // Default to average feeling
+      notes: 'Imported from GPX file',
+      feeling_rating: 3, // Default to average feeling
+      ...calculateElevationChange(stream),
+      ...calculateHeartRateStats(stream),
+      ...calculateMovingTime(stream),
+      raw_distance: Math.round(trackDistance.raw * 0.621371 * 100) / 100,
+      stream: stream.length > 0 ? stream : undefined
     };
   } catch (error) {
-    console.error('Error parsing TCX:', error);
+    console.error('Error parsing GPX:', error);
     return null;
   }
 };
 
-// Parse GPX (GPS Exchange Format) files
-const parseGPX = (content: string): ParsedRunData | null => {
+// Conversion factors from Apple Health units to miles and minutes
+const APPLE_DISTANCE_TO_MILES: Record<string, number> = {
+  mi: 1,
+  km: 0.621371,
+  m: 0.000621371,
+  yd: 1 / 1760
+};
+
+const APPLE_DURATION_TO_MINUTES: Record<string, number> = {
+  min: 1,
+  s: 1 / 60,
+  hr: 60,
+  h: 60
+};
+
+const APPLE_RUNNING_DISTANCE = 'HKQuantityTypeIdentifierDistanceWalkingRunning';
+const APPLE_HEART_RATE = 'HKQuantityTypeIdentifierHeartRate';
+
+// Parse Apple Health export.xml files (multiple runs)
+// Exports are often hundreds of megabytes, so workouts are scanned with a regex instead of DOMParser.
+// routeFiles maps workout-route GPX file names (e.g. route_2024-05-01_7.30am.gpx) to their content.
+const parseAppleHealthExport = (
+  content: string,
+  routeFiles: Record<string, string> = {},
+  onProgress?: (progress: number) => void
+): ParsedRunData[] | null => {
   try {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(content, 'text/xml');
-    
-    // Check for parsing errors
-    const parserError = xmlDoc.querySelector('parsererror');
-    if (parserError) {
-      throw new Error('Invalid XML format');
+    if (!content.includes('<HealthData')) {
+      throw new Error('Not an Apple Health export');
     }
 
-    const track = xmlDoc.querySelector('trk');
-    if (!track) {
-      throw new Error('No track found in GPX file');
+    const runs: ParsedRunData[] = [];
+    const workoutPattern = /<Workout\s([^>]*?)(?:\/>|>([\s\S]*?)<\/Workout>)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = workoutPattern.exec(content)) !== null) {
+      onProgress?.(workoutPattern.lastIndex / content.length);
+
+      try {
+        const workout = parseXMLAttributes(match[1]);
+        const body = match[2] || '';
+
+        if (workout.workoutActivityType !== 'HKWorkoutActivityTypeRunning') {
+          continue; // Skip non-running workouts
+        }
+
+        // Summary statistics recorded with the workout, keyed by quantity type
+        const statistics: Record<string, Record<string, string>> = {};
+        const statisticsPattern = /<WorkoutStatistics\s([^>]*?)\/?>/g;
+        let statisticsMatch: RegExpExecArray | null;
+        while ((statisticsMatch = statisticsPattern.exec(body)) !== null) {
+          const attributes = parseXMLAttributes(statisticsMatch[1]);
+          if (attributes.type) statistics[attributes.type] = attributes;
+        }
+
+        // Older exports put the distance on the workout, newer ones in WorkoutStatistics
+        let distance = parseFloat(workout.totalDistance || '');
+        let distanceUnit = workout.totalDistanceUnit || 'km';
+        if (isNaN(distance) && statistics[APPLE_RUNNING_DISTANCE]) {
+          distance = parseFloat(statistics[APPLE_RUNNING_DISTANCE].sum || '');
+          distanceUnit = statistics[APPLE_RUNNING_DISTANCE].unit || 'km';
+        }
+
+        const distanceInMiles = distance * (APPLE_DISTANCE_TO_MILES[distanceUnit] ?? NaN);
+
+        // The workout duration leaves out paused time, start to end date includes it
+        const movingInMinutes = parseFloat(workout.duration || '') *
+          (APPLE_DURATION_TO_MINUTES[workout.durationUnit || 'min'] ?? NaN);
+        const elapsedInMinutes = workout.startDate && workout.endDate
+          ? (parseAppleDate(workout.endDate).getTime() - parseAppleDate(workout.startDate).getTime()) / (1000 * 60)
+          : NaN;
+        const durationInMinutes = isNaN(movingInMinutes) ? elapsedInMinutes : movingInMinutes;
+
+        if (!(distanceInMiles > 0) || !(durationInMinutes > 0) || !workout.startDate) {
+          continue; // Skip workouts without usable totals
+        }
+
+        // Link the workout route GPX, referenced as /workout-routes/route_<date>.gpx
+        const routePath = /<FileReference\s[^>]*path="([^"]+)"/.exec(body)?.[1];
+        const routeName = routePath?.split('/').pop();
+        // Unnamed routes are left without a route name rather than labelled as Garmin imports
+        const routeRun = routeName && routeFiles[routeName] ? parseGPX(routeFiles[routeName], undefined, () => undefined) : null;
+
+        runs.push({
+          // startDate is "yyyy-MM-dd HH:mm:ss ±hhmm" in the phone's local time
+          date: workout.startDate.slice(0, 10),
+          start_time: parseAppleDate(workout.startDate).toISOString(),
+          distance: Math.round(distanceInMiles * 100) / 100,
+          duration: Math.round(durationInMinutes * 100) / 100,
+          pace: calculatePace(distanceInMiles, durationInMinutes),
+          route: routeRun?.route,
+          notes: `Imported from Apple Health - Source: ${workout.sourceName || 'Unknown'}`,
+          feeling_rating: 3, // Default to average feeling
+          elevation_gain: routeRun?.elevation_gain,
+          elevation_loss: routeRun?.elevation_loss,
+          // Route files have no heart rate, the workout statistics do (count/min)
+          avg_heart_rate: roundOptional(parseOptionalNumber(statistics[APPLE_HEART_RATE]?.average)),
+          max_heart_rate: roundOptional(parseOptionalNumber(statistics[APPLE_HEART_RATE]?.maximum)),
+          moving_time: movingInMinutes > 0 ? Math.round(movingInMinutes * 100) / 100 : undefined,
+          elapsed_time: elapsedInMinutes > 0 ? Math.round(elapsedInMinutes * 100) / 100 : undefined,
+          stream: routeRun?.stream
+        });
+      } catch (error) {
+        console.warn('Skipping Apple Health workout:', error);
+        continue; // Skip problematic workouts
+      }
     }
 
-    const trackPoints = xmlDoc.querySelectorAll('trkpt');
-    if (trackPoints.length < 2) {
-      throw new Error('Insufficient track points for analysis');
+    return runs.length > 0 ? runs : null;
+  } catch (error) {
+    console.error('Error parsing Apple Health export:', error);
+    return null;
+  }
+};
+
+// Calendar date (yyyy-MM-dd) of an instant in an IANA timezone, or in the runtime's own zone
+// Track files record UTC instants, and an evening run in the Americas is already the next day in UTC
+const getLocalDate = (time: Date, timeZone?: string): string => {
+  const parts = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .formatToParts(time);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+// Apple Health dates look like "2024-05-01 07:30:00 -0400"
+const parseAppleDate = (value: string): Date => {
+  return parse(value, 'yyyy-MM-dd HH:mm:ss xx', new Date());
+};
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600;
+
+// Global message numbers we care about in FIT files
+const FIT_MESG_SESSION = 18;
+const FIT_MESG_LAP = 19;
+const FIT_MESG_RECORD = 20;
+
+// FIT sport enum values we can name in import notes
+const FIT_SPORTS: Record<number, string> = {
+  0: 'Generic',
+  1: 'Running',
+  2: 'Cycling',
+  5: 'Swimming',
+  11: 'Walking',
+  17: 'Hiking'
+};
+
+type FITMessage = Record<number, number | string>;
+
+interface FITFieldDefinition {
+  fieldNumber: number;
+  size: number;
+  baseType: number;
+}
+
+interface FITDefinition {
+  globalMessageNumber: number;
+  littleEndian: boolean;
+  fields: FITFieldDefinition[];
+  developerDataSize: number;
+}
+
+// Read a single FIT field value, returning null for the base type's "invalid" marker
+const readFITValue = (view: DataView, offset: number, field: FITFieldDefinition, littleEndian: boolean): number | string | null => {
+  switch (field.baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: { // uint8
+      const value = view.getUint8(offset);
+      return value === 0xff ? null : value;
+    }
+    case 0x01: { // sint8
+      const value = view.getInt8(offset);
+      return value === 0x7f ? null : value;
+    }
+    case 0x0a: { // uint8z
+      const value = view.getUint8(offset);
+      return value === 0 ? null : value;
+    }
+    case 0x03: { // sint16
+      if (field.size < 2) return null;
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? null : value;
+    }
+    case 0x04: { // uint16
+      if (field.size < 2) return null;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? null : value;
     }
+    case 0x0b: { // uint16z
+      if (field.size < 2) return null;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0 ? null : value;
+    }
+    case 0x05: { // sint32
+      if (field.size < 4) return null;
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? null : value;
+    }
+    case 0x06: { // uint32
+      if (field.size < 4) return null;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? null : value;
+    }
+    case 0x0c: { // uint32z
+      if (field.size < 4) return null;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0 ? null : value;
+    }
+    case 0x08: { // float32
+      if (field.size < 4) return null;
+      const value = view.getFloat32(offset, littleEndian);
+      return isFinite(value) ? value : null;
+    }
+    case 0x09: { // float64
+      if (field.size < 8) return null;
+      const value = view.getFloat64(offset, littleEndian);
+      return isFinite(value) ? value : null;
+    }
+    case 0x07: { // string
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+      const end = bytes.indexOf(0);
+      const text = new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+      return text || null;
+    }
+    default:
+      // 64-bit integers and raw bytes are not needed for run data
+      return null;
+  }
+};
 
-    // Get start and end times
-    const firstPoint = trackPoints[0];
-    const lastPoint = trackPoints[trackPoints.length - 1];
-    
-    const startTimeElement = firstPoint.querySelector('time');
-    const endTimeElement = lastPoint.querySelector('time');
-    
-    if (!startTimeElement || !endTimeElement) {
-      throw new Error('No time data found in track points');
+// Decode the session, lap and record messages from a FIT file
+const decodeFITMessages = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 12) {
+    throw new Error('File is too small to be a FIT file');
+  }
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(
+    view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11)
+  );
+
+  if (signature !== '.FIT' || headerSize < 12) {
+    throw new Error('Invalid FIT file header');
+  }
+
+  const end = Math.min(headerSize + dataSize, view.byteLength);
+  const definitions = new Map<number, FITDefinition>();
+  const sessions: FITMessage[] = [];
+  const laps: FITMessage[] = [];
+  const records: FITMessage[] = [];
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const recordHeader = view.getUint8(offset++);
+
+    // Compressed timestamp header: 2-bit local type, 5-bit time offset
+    if (recordHeader & 0x80) {
+      const localType = (recordHeader >> 5) & 0x03;
+      const timeOffset = recordHeader & 0x1f;
+      const definition = definitions.get(localType);
+      if (!definition) {
+        throw new Error(`Missing FIT definition for local message ${localType}`);
+      }
+
+      let timestamp = (lastTimestamp & ~0x1f) + timeOffset;
+      if (timeOffset < (lastTimestamp & 0x1f)) {
+        timestamp += 0x20; // offset rolled over
+      }
+      lastTimestamp = timestamp;
+
+      const message = readFITDataMessage(view, offset, definition);
+      message[253] = timestamp;
+      offset += getFITMessageSize(definition);
+      collectFITMessage(definition, message, sessions, laps, records);
+      continue;
     }
 
-    const startTime = new Date(startTimeElement.textContent || '');
-    const endTime = new Date(endTimeElement.textContent || '');
-    
-    // Calculate duration in minutes
-    const durationInMinutes = (endTime.getTime() - startTime.getTime()) / (1000 * 60);
+    const localType = recordHeader & 0x0f;
+
+    if (recordHeader & 0x40) {
+      // Definition message
+      const hasDeveloperData = (recordHeader & 0x20) !== 0;
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+
+      const fields: FITFieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          fieldNumber: view.getUint8(offset),
+          size: view.getUint8(offset + 1),
+          baseType: view.getUint8(offset + 2)
+        });
+        offset += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const developerFieldCount = view.getUint8(offset++);
+        for (let i = 0; i < developerFieldCount; i++) {
+          developerDataSize += view.getUint8(offset + 1);
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, { globalMessageNumber, littleEndian, fields, developerDataSize });
+      continue;
+    }
+
+    // Data message
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error(`Missing FIT definition for local message ${localType}`);
+    }
+
+    const message = readFITDataMessage(view, offset, definition);
+    offset += getFITMessageSize(definition);
+
+    if (typeof message[253] === 'number') {
+      lastTimestamp = message[253];
+    }
+
+    collectFITMessage(definition, message, sessions, laps, records);
+  }
+
+  return { sessions, laps, records };
+};
+
+const getFITMessageSize = (definition: FITDefinition): number => {
+  return definition.fields.reduce((sum, field) => sum + field.size, 0) + definition.developerDataSize;
+};
+
+const readFITDataMessage = (view: DataView, offset: number, definition: FITDefinition): FITMessage => {
+  const message: FITMessage = {};
+  let fieldOffset = offset;
+
+  for (const field of definition.fields) {
+    const value = readFITValue(view, fieldOffset, field, definition.littleEndian);
+    if (value !== null) {
+      message[field.fieldNumber] = value;
+    }
+    fieldOffset += field.size;
+  }
+
+  return message;
+};
+
+const collectFITMessage = (
+  definition: FITDefinition,
+  message: FITMessage,
+  sessions: FITMessage[],
+  laps: FITMessage[],
+  records: FITMessage[]
+) => {
+  switch (definition.globalMessageNumber) {
+    case FIT_MESG_SESSION:
+      sessions.push(message);
+      break;
+    case FIT_MESG_LAP:
+      laps.push(message);
+      break;
+    case FIT_MESG_RECORD:
+      records.push(message);
+      break;
+  }
+};
+
+const fitNumber = (message: FITMessage | undefined, field: number): number | undefined => {
+  const value = message?.[field];
+  return typeof value === 'number' ? value : undefined;
+};
+
+const fitSemicirclesToDegrees = (semicircles: number): number => {
+  return semicircles * (180 / 2 ** 31);
+};
+
+const optionalFitDegrees = (semicircles?: number): number | undefined => {
+  return semicircles !== undefined ? fitSemicirclesToDegrees(semicircles) : undefined;
+};
+
+const fitTimestampToDate = (timestamp: number): Date => {
+  return new Date((timestamp + FIT_EPOCH_OFFSET) * 1000);
+};
+
+// Parse FIT (Flexible and Interoperable Data Transfer) binary files
+const parseFIT = (buffer: ArrayBuffer): ParsedRunData | null => {
+  try {
+    const { sessions, laps, records } = decodeFITMessages(buffer);
+
+    if (sessions.length === 0 && laps.length === 0 && records.length === 0) {
+      throw new Error('No activity data found in FIT file');
+    }
+
+    // Session totals (field 9: distance in cm, field 8: timer time in ms)
+    let totalDistance = sessions.reduce((sum, s) => sum + (fitNumber(s, 9) || 0), 0) / 100;
+    let totalTime = sessions.reduce((sum, s) => sum + (fitNumber(s, 8) ?? fitNumber(s, 7) ?? 0), 0) / 1000;
+
+    // Fall back to lap totals when the session message is missing
+    if (totalDistance === 0) {
+      totalDistance = laps.reduce((sum, lap) => sum + (fitNumber(lap, 9) || 0), 0) / 100;
+    }
+    if (totalTime === 0) {
+      totalTime = laps.reduce((sum, lap) => sum + (fitNumber(lap, 8) ?? fitNumber(lap, 7) ?? 0), 0) / 1000;
+    }
 
-    // Calculate distance using Haversine formula
-    let totalDistance = 0;
-    for (let i = 1; i < trackPoints.length; i++) {
-      const prevPoint = trackPoints[i - 1];
-      const currPoint = trackPoints[i];
-      
-      const lat1 = parseFloat(prevPoint.getAttribute('lat') || '0');
-      const lon1 = parseFloat(prevPoint.getAttribute('lon') || '0');
-      const lat2 = parseFloat(currPoint.getAttribute('lat') || '0');
-      const lon2 = parseFloat(currPoint.getAttribute('lon') || '0');
-      
-      totalDistance += haversineDistance(lat1, lon1, lat2, lon2);
+    // Finally fall back to the record stream
+    const timedRecords = records.filter(record => fitNumber(record, 253) !== undefined);
+    if (totalDistance === 0) {
+      const lastDistance = [...records].reverse().find(record => fitNumber(record, 5) !== undefined);
+      totalDistance = (fitNumber(lastDistance, 5) || 0) / 100;
+    }
+    if (totalDistance === 0) {
+      // Records without a distance field: integrate GPS positions (semicircles)
+      const positions = records.filter(record => fitNumber(record, 0) !== undefined && fitNumber(record, 1) !== undefined);
+      for (let i = 1; i < positions.length; i++) {
+        totalDistance += haversineDistance(
+          fitSemicirclesToDegrees(fitNumber(positions[i - 1], 0)!),
+          fitSemicirclesToDegrees(fitNumber(positions[i - 1], 1)!),
+          fitSemicirclesToDegrees(fitNumber(positions[i], 0)!),
+          fitSemicirclesToDegrees(fitNumber(positions[i], 1)!)
+        ) * 1000;
+      }
+    }
+    if (totalTime === 0 && timedRecords.length > 1) {
+      totalTime = fitNumber(timedRecords[timedRecords.length - 1], 253)! - fitNumber(timedRecords[0], 253)!;
     }
 
-    const distanceInMiles = totalDistance * 0.621371; // Convert km to miles
+    // Convert meters to miles and seconds to minutes
+    const distanceInMiles = totalDistance * 0.000621371;
+    const durationInMinutes = totalTime / 60;
 
     if (distanceInMiles === 0 || durationInMinutes === 0) {
       throw new Error('Invalid distance or duration data');
     }
 
-    // Get track name if available
-    const trackName = track.querySelector('name')?.textContent;
-    const routeNote = trackName || `Imported from Garmin (${trackPoints.length} GPS points)`;
+    const startTimestamp = fitNumber(sessions[0], 2)
+      ?? fitNumber(laps[0], 2)
+      ?? fitNumber(timedRecords[0], 253)
+      ?? fitNumber(sessions[0], 253);
+
+    if (startTimestamp === undefined) {
+      throw new Error('No start time found');
+    }
+
+    const sportValue = fitNumber(sessions[0], 5);
+    const sport = sportValue !== undefined ? FIT_SPORTS[sportValue] || `Sport ${sportValue}` : 'Running';
+    const routeNote = records.length > 0 ? `Imported from Garmin (${records.length} GPS points)` : undefined;
+
+    // Keep the record stream for maps and splits
+    const stream: RunStreamPoint[] = timedRecords.map(record => {
+      // Altitude is stored as (meters + 500) * 5, enhanced_altitude (78) supersedes field 2
+      const altitude = fitNumber(record, 78) ?? fitNumber(record, 2);
+
+      return {
+        time: fitTimestampToDate(fitNumber(record, 253)!).toISOString(),
+        lat: optionalFitDegrees(fitNumber(record, 0)),
+        lon: optionalFitDegrees(fitNumber(record, 1)),
+        elevation: altitude !== undefined ? altitude / 5 - 500 : undefined,
+        heart_rate: fitNumber(record, 3)
+      };
+    });
+
+    // Device laps (field 9: distance in cm, field 8: timer time in ms, field 15: avg heart rate)
+    const lapData = laps.flatMap(lap => {
+      const lapDistance = (fitNumber(lap, 9) || 0) / 100;
+      const lapTime = (fitNumber(lap, 8) ?? fitNumber(lap, 7) ?? 0) / 1000;
+      return lapDistance > 0 && lapTime > 0 ? [toLapData(lapDistance, lapTime, fitNumber(lap, 15))] : [];
+    });
+
+    // Prefer the device's own totals (field 22: total ascent, field 23: total descent, in meters)
+    const totalAscent = fitNumber(sessions[0], 22);
+    const totalDescent = fitNumber(sessions[0], 23);
+    const elevation = totalAscent !== undefined && totalDescent !== undefined
+      ? { elevation_gain: Math.round(totalAscent * METERS_TO_FEET), elevation_loss: Math.round(totalDescent * METERS_TO_FEET) }
+      : calculateElevationChange(stream);
+
+    // Session heart rate (field 16: avg, field 17: max, in bpm)
+    const avgHeartRate = fitNumber(sessions[0], 16);
+    const maxHeartRate = fitNumber(sessions[0], 17);
+    const heartRate = avgHeartRate !== undefined && maxHeartRate !== undefined
+      ? { avg_heart_rate: avgHeartRate, max_heart_rate: maxHeartRate }
+      : calculateHeartRateStats(stream);
+
+    // Session elapsed time (field 7, in ms) includes pauses the timer skipped
+    const sessionElapsed = fitNumber(sessions[0], 7);
+    const times = calculateMovingTime(stream);
 
     return {
-      date: format(startTime, 'yyyy-MM-dd'),
+      date: getLocalDate(fitTimestampToDate(startTimestamp)),
+      start_time: fitTimestampToDate(startTimestamp).toISOString(),
       distance: Math.round(distanceInMiles * 100) / 100,
       duration: Math.round(durationInMinutes * 100) / 100,
       pace: calculatePace(distanceInMiles, durationInMinutes),
       route: routeNote,
-      notes: 'Imported from GPX file',
-      feeling_rating: 3 // Default to average feeling
+      notes: `Imported from FIT file - Sport: ${sport}`,
+      feeling_rating: 3, // Default to average feeling
+      ...elevation,
+      ...heartRate,
+      moving_time: times?.moving_time,
+      elapsed_time: sessionElapsed !== undefined ? Math.round(sessionElapsed / 600) / 100 : times?.elapsed_time,
+      laps: lapData.length > 0 ? lapData : undefined,
+      stream: stream.length > 0 ? stream : undefined
     };
   } catch (error) {
-    console.error('Error parsing GPX:', error);
+    console.error('Error parsing FIT:', error);
     return null;
   }
 };
 
+const METERS_TO_FEET = 3.28084;
+
+// Elevation samples averaged on each side of a point to smooth out GPS altitude noise
+const ELEVATION_SMOOTHING_RADIUS = 2;
+
+// Smallest climb or descent (in meters) counted, so jitter on flat ground isn't summed up
+const ELEVATION_THRESHOLD_METERS = 3;
+
+// Smoothed elevation gain and loss in feet from a track stream
+const calculateElevationChange = (stream: RunStreamPoint[]): Pick<ParsedRunData, 'elevation_gain' | 'elevation_loss'> | undefined => {
+  const elevations = stream.flatMap(point => point.elevation !== undefined ? [point.elevation] : []);
+  if (elevations.length < 2) return undefined;
+
+  const smoothed = elevations.map((_, i) => {
+    const window = elevations.slice(Math.max(0, i - ELEVATION_SMOOTHING_RADIUS), i + ELEVATION_SMOOTHING_RADIUS + 1);
+    return window.reduce((sum, value) => sum + value, 0) / window.length;
+  });
+
+  // Only count a change once it moves far enough away from the last counted level
+  let gain = 0;
+  let loss = 0;
+  let reference = smoothed[0];
+  for (const elevation of smoothed) {
+    const change = elevation - reference;
+    if (Math.abs(change) >= ELEVATION_THRESHOLD_METERS) {
+      if (change > 0) {
+        gain += change;
+      } else {
+        loss -= change;
+      }
+      reference = elevation;
+    }
+  }
+
+  return {
+    elevation_gain: Math.round(gain * METERS_TO_FEET),
+    elevation_loss: Math.round(loss * METERS_TO_FEET)
+  };
+};
+
+// Build a lap in miles and minutes from meters and seconds
+const toLapData = (distanceMeters: number, timeSeconds: number, avgHeartRate?: number): RunLapData => {
+  const distance = distanceMeters * 0.000621371;
+  const duration = timeSeconds / 60;
+
+  return {
+    distance: Math.round(distance * 1000) / 1000,
+    duration: Math.round(duration * 100) / 100,
+    pace: Math.round(calculatePace(distance, duration) * 100) / 100,
+    avg_heart_rate: roundOptional(avgHeartRate)
+  };
+};
+
+// Average and max heart rate in bpm from a track stream
+const calculateHeartRateStats = (stream: RunStreamPoint[]): Pick<ParsedRunData, 'avg_heart_rate' | 'max_heart_rate'> | undefined => {
+  const heartRates = stream.flatMap(point => point.heart_rate ? [point.heart_rate] : []);
+  if (heartRates.length === 0) return undefined;
+
+  return {
+    avg_heart_rate: Math.round(heartRates.reduce((sum, value) => sum + value, 0) / heartRates.length),
+    max_heart_rate: Math.max(...heartRates)
+  };
+};
+
+// Track segments slower than this (meters per second) count as standing still
+const PAUSE_SPEED_THRESHOLD = 0.5;
+
+// Gaps between track points longer than this (seconds) mean the recording was paused
+const PAUSE_GAP_SECONDS = 30;
+
+// Moving and elapsed time in minutes from a track stream, leaving out stops and recording gaps
+const calculateMovingTime = (stream: RunStreamPoint[]): Pick<ParsedRunData, 'moving_time' | 'elapsed_time'> | undefined => {
+  const timed = stream.filter(point => !isNaN(new Date(point.time).getTime()));
+  if (timed.length < 2) return undefined;
+
+  const elapsedSeconds = (new Date(timed[timed.length - 1].time).getTime() - new Date(timed[0].time).getTime()) / 1000;
+
+  // Treadmill tracks have no positions, so there is nothing to detect pauses from
+  const positions = timed.filter(point => point.lat !== undefined && point.lon !== undefined);
+  let movingSeconds = 0;
+  for (let i = 1; i < positions.length; i++) {
+    const previous = positions[i - 1];
+    const current = positions[i];
+    const seconds = (new Date(current.time).getTime() - new Date(previous.time).getTime()) / 1000;
+    if (seconds <= 0 || seconds > PAUSE_GAP_SECONDS) continue;
+
+    const meters = haversineDistance(previous.lat!, previous.lon!, current.lat!, current.lon!) * 1000;
+    if (meters / seconds >= PAUSE_SPEED_THRESHOLD) {
+      movingSeconds += seconds;
+    }
+  }
+
+  return {
+    moving_time: movingSeconds > 0 ? Math.round(movingSeconds / 60 * 100) / 100 : undefined,
+    elapsed_time: Math.round(elapsedSeconds / 60 * 100) / 100
+  };
+};
+
+// Fastest plausible running speed (meters per second); jumps needing more are GPS outliers
+const MAX_RUNNING_SPEED = 12;
+
+// GPS positions averaged on each side of a point to smooth out jitter
+const POSITION_SMOOTHING_RADIUS = 2;
+
+// Smallest movement (in meters) counted, so drift while standing still isn't summed up
+const POSITION_THRESHOLD_METERS = 3;
+
+// Speed in meters per second between two track points, or undefined without a usable time gap
+const getSegmentSpeed = (from: RunStreamPoint, to: RunStreamPoint): number | undefined => {
+  const seconds = (new Date(to.time).getTime() - new Date(from.time).getTime()) / 1000;
+  if (!(seconds > 0)) return undefined;
+  return haversineDistance(from.lat!, from.lon!, to.lat!, to.lon!) * 1000 / seconds;
+};
+
+// GPS points left after dropping spikes, each with the noise-filtered distance covered so far in kilometers
+const getFilteredTrack = (stream: RunStreamPoint[]): { point: RunStreamPoint; distance: number }[] => {
+  const positions = stream.filter(point => point.lat !== undefined && point.lon !== undefined);
+
+  // Drop spikes: points reached and left again at an impossible speed
+  const kept = positions.filter((point, i) => {
+    const previous = positions[i - 1];
+    const next = positions[i + 1];
+    if (!previous || !next) return true;
+
+    const speedIn = getSegmentSpeed(previous, point);
+    const speedOut = getSegmentSpeed(point, next);
+    return !(speedIn !== undefined && speedIn > MAX_RUNNING_SPEED && speedOut !== undefined && speedOut > MAX_RUNNING_SPEED);
+  });
+
+  // The window shrinks towards the ends so the start and finish stay where they were recorded
+  const smoothed = kept.map((_, i) => {
+    const radius = Math.min(POSITION_SMOOTHING_RADIUS, i, kept.length - 1 - i);
+    const window = kept.slice(i - radius, i + radius + 1);
+    return {
+      lat: window.reduce((sum, point) => sum + point.lat!, 0) / window.length,
+      lon: window.reduce((sum, point) => sum + point.lon!, 0) / window.length
+    };
+  });
+
+  // Only count movement once it gets far enough away from the last counted position
+  let filtered = 0;
+  let reference = smoothed[0];
+  return kept.map((point, i) => {
+    const distance = haversineDistance(reference.lat, reference.lon, smoothed[i].lat, smoothed[i].lon);
+    if (distance * 1000 >= POSITION_THRESHOLD_METERS) {
+      filtered += distance;
+      reference = smoothed[i];
+    }
+    return { point, distance: filtered };
+  });
+};
+
+// Raw and noise-filtered track distance in kilometers
+const calculateTrackDistance = (stream: RunStreamPoint[]): { raw: number; filtered: number } => {
+  const positions = stream.filter(point => point.lat !== undefined && point.lon !== undefined);
+
+  let raw = 0;
+  for (let i = 1; i < positions.length; i++) {
+    raw += haversineDistance(positions[i - 1].lat!, positions[i - 1].lon!, positions[i].lat!, positions[i].lon!);
+  }
+
+  const track = getFilteredTrack(positions);
+  return { raw, filtered: track.length > 0 ? track[track.length - 1].distance : 0 };
+};
+
 // Haversine formula to calculate distance between two GPS points
 const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
   const R = 6371; // Earth's radius in kilometers
@@ -348,13 +1319,52 @@ const toRadians = (degrees: number): number => {
   return degrees * (Math.PI / 180);
 };
 
-// Main parser function for single files
-export const parseGarminFile = async (content: string, fileType: string): Promise<ParsedRunData | null> => {
+const parseOptionalNumber = (text?: string | null): number | undefined => {
+  if (text === null || text === undefined || text.trim() === '') return undefined;
+  const value = parseFloat(text);
+  return isNaN(value) ? undefined : value;
+};
+
+// ISO timestamp of a date string, or undefined when it is empty or malformed
+const parseOptionalTime = (text?: string | null): string | undefined => {
+  const time = new Date(text || '');
+  return isNaN(time.getTime()) ? undefined : time.toISOString();
+};
+
+const roundOptional = (value?: number): number | undefined => {
+  return value !== undefined ? Math.round(value) : undefined;
+};
+
+const toText = (content: string | ArrayBuffer): string => {
+  return typeof content === 'string' ? content : new TextDecoder().decode(content);
+};
+
+// Wrap a single-run parser result in the array parseGarminFile returns
+const toRunList = (run: ParsedRunData | null): ParsedRunData[] | null => {
+  return run ? [run] : null;
+};
+
+// Main parser function for track files
+// TCX files may hold several activities, so runs are always returned as an array.
+// TCX and GPX are read as text, FIT files must be passed as the raw binary buffer.
+// No DOM is needed, so this also runs in Web Workers; onProgress receives the fraction parsed (0-1)
+// and onSkipActivity the sport of each non-running TCX activity left out
+export const parseGarminFile = async (
+  content: string | ArrayBuffer,
+  fileType: string,
+  onProgress?: (progress: number) => void,
+  onSkipActivity?: (sport: string) => void
+): Promise<ParsedRunData[] | null> => {
   switch (fileType.toLowerCase()) {
     case 'tcx':
-      return parseTCX(content);
+      return parseTCX(toText(content), onProgress, onSkipActivity);
     case 'gpx':
-      return parseGPX(content);
+      return toRunList(parseGPX(toText(content), onProgress));
+    case 'fit':
+      if (typeof content === 'string') {
+        throw new Error('FIT files must be read as binary data');
+      }
+      return toRunList(parseFIT(content));
     default:
       throw new Error(`Unsupported file type: ${fileType}`);
   }
@@ -363,6 +1373,21 @@ export const parseGarminFile = async (content: string, fileType: string): Promis
 // Export CSV parser for multiple runs
 export { parseCSVFile };
 
+// Export CSV column mapping helpers for the import wizard
+export { readCSVPreview, detectCSVMapping, parseCSVWithMapping, getCSVFileMapping, detectCSVUnits };
+
+// Export Apple Health parser for multiple runs
+export { parseAppleHealthExport };
+
+// Export CSV helpers for other export formats (e.g. Strava archives)
+export { isRunningActivity };
+
+// Export distance helpers for splits computed from stored streams
+export { haversineDistance, getFilteredTrack };
+
+// Export date helper for placing imported start times in the user's timezone
+export { getLocalDate };
+
 // Utility function to detect file type from content
 export const detectFileType = (content: string) => {
   const trimmedContent = content.trim();
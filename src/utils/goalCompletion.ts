@@ -1,5 +1,5 @@
-import { Goal, Run } from '../types';
-import { calculateTotalDistance, getFastestRun } from './calculations';
+import { Goal, PaceTimeBasis, Run } from '../types';
+import { calculateTotalDistance, getFastestRun, getRunPace } from './calculations';
 import { isAfter, parseISO } from 'date-fns';
 
 export interface GoalProgress {
@@ -15,7 +15,7 @@ export interface GoalProgress {
  * Check if a goal should be automatically completed using hybrid logic
  * Hybrid completion requires BOTH achievement AND date criteria to be met
  */
-export const checkGoalCompletion = (goal: Goal, runs: Run[]): GoalProgress => {
+export const checkGoalCompletion = (goal: Goal, runs: Run[], basis: PaceTimeBasis = 'elapsed'): GoalProgress => {
   const today = new Date();
   const targetDate = parseISO(goal.target_date);
   const isDateReached = isAfter(today, targetDate) || today.toDateString() === targetDate.toDateString();
@@ -50,14 +50,15 @@ export const checkGoalCompletion = (goal: Goal, runs: Run[]): GoalProgress => {
 
   // Check pace goal achievement
   if (goal.target_pace) {
-    const fastestRun = getFastestRun(runs);
+    const fastestRun = getFastestRun(runs, basis);
 
-    if (fastestRun && fastestRun.pace <= goal.target_pace) {
+    const bestPace = fastestRun ? getRunPace(fastestRun, basis) : 0;
+
+    if (fastestRun && bestPace <= goal.target_pace) {
       isAchieved = true;
       paceProgress = 100;
-      achievementMessage = `Pace goal achieved: ${fastestRun.pace.toFixed(2)} min/mile (target: ${goal.target_pace.toFixed(2)})`;
+      achievementMessage = `Pace goal achieved: ${bestPace.toFixed(2)} min/mile (target: ${goal.target_pace.toFixed(2)})`;
     } else {
-      const bestPace = fastestRun ? fastestRun.pace : 0;
       paceProgress = bestPace > 0 ? Math.max(0, (goal.target_pace / bestPace) * 100) : 0;
       achievementMessage = `Best pace: ${bestPace > 0 ? bestPace.toFixed(2) : 'N/A'} min/mile (target: ${goal.target_pace.toFixed(2)})`;
     }
@@ -66,10 +67,10 @@ export const checkGoalCompletion = (goal: Goal, runs: Run[]): GoalProgress => {
   // Check combined distance AND pace goals
   if (goal.target_distance && goal.target_pace) {
     const totalDistance = calculateTotalDistance(runs);
-    const fastestRun = getFastestRun(runs);
+    const fastestRun = getFastestRun(runs, basis);
 
     const distanceAchieved = totalDistance >= goal.target_distance;
-    const paceAchieved = fastestRun && fastestRun.pace <= goal.target_pace;
+    const paceAchieved = fastestRun && getRunPace(fastestRun, basis) <= goal.target_pace;
 
     isAchieved = distanceAchieved && !!paceAchieved;
 
@@ -118,11 +119,11 @@ export const checkGoalCompletion = (goal: Goal, runs: Run[]): GoalProgress => {
 /**
  * Check all goals for automatic completion and return goals that should be updated
  */
-export const checkAllGoalsForCompletion = (goals: Goal[], runs: Run[]): Goal[] => {
+export const checkAllGoalsForCompletion = (goals: Goal[], runs: Run[], basis: PaceTimeBasis = 'elapsed'): Goal[] => {
   const goalsToUpdate: Goal[] = [];
 
   for (const goal of goals) {
-    const progress = checkGoalCompletion(goal, runs);
+    const progress = checkGoalCompletion(goal, runs, basis);
 
     // Only update if the goal should be completed but isn't already
     if (progress.isCompleted && !goal.completed) {
@@ -139,16 +140,16 @@ export const checkAllGoalsForCompletion = (goals: Goal[], runs: Run[]): Goal[] =
 /**
  * Get progress summary for a goal
  */
-export const getGoalProgressSummary = (goal: Goal, runs: Run[]): string => {
-  const progress = checkGoalCompletion(goal, runs);
+export const getGoalProgressSummary = (goal: Goal, runs: Run[], basis: PaceTimeBasis = 'elapsed'): string => {
+  const progress = checkGoalCompletion(goal, runs, basis);
   return progress.message;
 };
 
 /**
  * Get progress percentage for display
  */
-export const getGoalProgressPercentage = (goal: Goal, runs: Run[]): number => {
-  const progress = checkGoalCompletion(goal, runs);
+export const getGoalProgressPercentage = (goal: Goal, runs: Run[], basis: PaceTimeBasis = 'elapsed'): number => {
+  const progress = checkGoalCompletion(goal, runs, basis);
 
   if (progress.isCompleted) return 100;
 
@@ -0,0 +1,277 @@
+import {
+  parseGarminFile,
+  parseCSVFile,
+  parseCSVWithMapping,
+  parseAppleHealthExport,
+  readCSVPreview,
+  getCSVFileMapping,
+  detectCSVUnits,
+  getLocalDate,
+  ParsedRunData,
+  CSVUnits
+} from './garminParser';
+import { detectCSVProfile } from './csvProfiles';
+import { CSVRowError } from './csvReader';
+import { isStravaArchive, parseStravaArchive, unzipStravaArchive } from './stravaArchive';
+import { isAppleHealthArchive, parseAppleHealthArchive, unzipAppleHealthArchive } from './appleHealthArchive';
+import { gunzipFile, listZipEntries, unzipFileArchive } from './fileArchive';
+import { CsvColumnMapping, CsvDistanceUnit } from '../types';
+
+export interface CsvFileInfo {
+  profile: string; // CSV layout the file was read with
+  units: CSVUnits;
+  rowErrors: CSVRowError[]; // rows skipped while reading the file
+}
+
+export interface ParseImportFileOptions {
+  csvDistanceUnit: CsvDistanceUnit;
+  appleRouteFiles: File[]; // workout-route GPX files selected alongside an Apple Health export.xml
+  timeZone: string | null; // IANA timezone from the user's profile, the device's own zone when unset
+}
+
+export interface ParsedImportEntry {
+  fileName: string;
+  runs: ParsedRunData[];
+  original?: File; // TCX/GPX/FIT file the runs were read from, archived for reprocessing
+  skippedSports?: string[]; // sport of each non-running activity left out of a TCX file
+}
+
+export type ParsedImportFile =
+  | { status: 'parsed'; files: ParsedImportEntry[]; csvInfo?: CsvFileInfo }
+  | { status: 'unmapped'; content: string } // CSV whose columns the user has to map
+  | { status: 'failed'; message: string; rowErrors?: CSVRowError[] }
+  | { status: 'archive'; entries: { fileName: string; result: ParsedImportFile }[] }; // one result per archive entry
+
+export const SUPPORTED_EXTENSIONS = ['tcx', 'gpx', 'fit', 'csv', 'xml', 'zip', 'gz'];
+
+// Track formats whose original file is kept alongside the runs read from it
+const ARCHIVED_EXTENSIONS = ['tcx', 'gpx', 'fit'];
+
+/**
+ * Set each run's date to the day it started in the user's timezone.
+ * Apple Health dates are left alone, they are already in the phone's local time.
+ */
+const localizeRunDates = (runs: ParsedRunData[], timeZone: string | null): ParsedRunData[] => {
+  return runs.map(run => run.start_time
+    ? { ...run, date: getLocalDate(new Date(run.start_time), timeZone || undefined) }
+    : run);
+};
+
+/**
+ * Describe activities left out as not runs, e.g. "2 activities (Biking, Other)"
+ */
+export const describeSkippedSports = (sports: string[]): string => {
+  const count = sports.length === 1 ? '1 activity' : `${sports.length} activities`;
+  return `${count} (${Array.from(new Set(sports)).join(', ')})`;
+};
+
+/**
+ * Parse one selected file into runs. Only Web APIs available in workers are
+ * used, so this runs off the main thread in the import worker.
+ * onProgress receives the fraction of the file parsed (0-1).
+ */
+export const parseImportFile = async (
+  file: File,
+  options: ParseImportFileOptions,
+  onProgress?: (progress: number) => void
+): Promise<ParsedImportFile> => {
+  try {
+    const fileExtension = file.name.split('.').pop()?.toLowerCase() || '';
+
+    if (!SUPPORTED_EXTENSIONS.includes(fileExtension)) {
+      return {
+        status: 'failed',
+        message: 'Unsupported file format. Please use TCX, GPX, FIT, CSV, Apple Health export, or ZIP/GZ archive files.'
+      };
+    }
+
+    if (fileExtension === 'zip') {
+      return await parseArchive(file, options, onProgress);
+    }
+
+    // Gzipped track or CSV files are parsed as the file they hold
+    if (fileExtension === 'gz') {
+      return await parseImportFile(await gunzipFile(file), options, onProgress);
+    }
+
+    // FIT files are binary, everything else is text
+    const fileContent = fileExtension === 'fit' ? await file.arrayBuffer() : await file.text();
+
+    let parsedRuns: ParsedRunData[] | null;
+    let csvInfo: CsvFileInfo | undefined;
+    const skippedSports: string[] = [];
+    if (fileExtension === 'csv' && typeof fileContent === 'string') {
+      // Handle CSV files (multiple runs)
+      const csvResult = parseCSVFile(fileContent, options.csvDistanceUnit, onProgress);
+
+      // Let the user map the columns when the headers aren't recognized
+      if (!csvResult && readCSVPreview(fileContent)) {
+        return { status: 'unmapped', content: fileContent };
+      }
+
+      if (csvResult && csvResult.runs.length === 0 && csvResult.errors.length > 0) {
+        return { status: 'failed', message: 'No valid run data found in CSV file.', rowErrors: csvResult.errors };
+      }
+
+      const headers = readCSVPreview(fileContent)?.headers || [];
+      const mapping = getCSVFileMapping(fileContent, options.csvDistanceUnit);
+      parsedRuns = csvResult && csvResult.runs;
+      csvInfo = {
+        profile: detectCSVProfile(headers)?.name || 'Generic CSV',
+        units: detectCSVUnits(fileContent, mapping || { columns: {}, date_format: 'auto', distance_unit: 'auto' }),
+        rowErrors: csvResult?.errors || []
+      };
+    } else if (fileExtension === 'xml' && typeof fileContent === 'string') {
+      // Handle Apple Health export.xml (multiple runs)
+      const routeFiles: Record<string, string> = {};
+      for (const routeFile of options.appleRouteFiles) {
+        routeFiles[routeFile.name] = await routeFile.text();
+      }
+      parsedRuns = parseAppleHealthExport(fileContent, routeFiles, onProgress);
+    } else {
+      // Handle TCX/GPX/FIT files (TCX history files may hold several runs)
+      const trackRuns = await parseGarminFile(fileContent, fileExtension, onProgress, sport => skippedSports.push(sport));
+      parsedRuns = trackRuns && localizeRunDates(trackRuns, options.timeZone);
+    }
+
+    if ((!parsedRuns || parsedRuns.length === 0) && skippedSports.length > 0) {
+      return {
+        status: 'failed',
+        message: `No running activities found, skipped ${describeSkippedSports(skippedSports)}.`
+      };
+    }
+
+    if (!parsedRuns || parsedRuns.length === 0) {
+      return {
+        status: 'failed',
+        message: fileExtension === 'csv'
+          ? 'No valid run data found in CSV file.'
+          : fileExtension === 'xml'
+            ? 'No running workouts found in Apple Health export.'
+            : 'Could not parse run data from file.'
+      };
+    }
+
+    return {
+      status: 'parsed',
+      files: [{
+        fileName: file.name,
+        runs: parsedRuns,
+        original: ARCHIVED_EXTENSIONS.includes(fileExtension) ? file : undefined,
+        skippedSports: skippedSports.length > 0 ? skippedSports : undefined
+      }],
+      csvInfo
+    };
+  } catch (error) {
+    return {
+      status: 'failed',
+      message: `Error processing file: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+/**
+ * Parse a CSV file with the column mapping chosen in the import wizard.
+ * Like parseImportFile, this runs in the import worker; onProgress receives the fraction of rows read.
+ */
+export const parseMappedCSVFile = (
+  fileName: string,
+  content: string,
+  mapping: CsvColumnMapping,
+  onProgress?: (progress: number) => void
+): ParsedImportFile => {
+  const parsed = parseCSVWithMapping(content, mapping, null, onProgress);
+
+  if (!parsed || parsed.runs.length === 0) {
+    return {
+      status: 'failed',
+      message: 'No valid run data found with the selected column mapping.',
+      rowErrors: parsed?.errors
+    };
+  }
+
+  return {
+    status: 'parsed',
+    files: [{ fileName, runs: parsed.runs }],
+    csvInfo: { profile: 'Custom mapping', units: detectCSVUnits(content, mapping), rowErrors: parsed.errors }
+  };
+};
+
+/**
+ * Parse a Strava or Apple Health export, or any zip of activity files.
+ * Strava activities are staged per track file, Apple Health workouts under the archive name,
+ * and other archives report a result for each entry.
+ */
+const parseArchive = async (
+  file: File,
+  options: ParseImportFileOptions,
+  onProgress?: (progress: number) => void
+): Promise<ParsedImportFile> => {
+  const buffer = await file.arrayBuffer();
+
+  // Route on the entry names first, so even multi-GB exports are only decompressed once
+  const entryNames = listZipEntries(buffer);
+
+  if (!isStravaArchive(entryNames)) {
+    if (!isAppleHealthArchive(entryNames)) {
+      return await parseFileArchive(buffer, options, onProgress);
+    }
+
+    const healthRuns = parseAppleHealthArchive(unzipAppleHealthArchive(buffer), onProgress);
+    if (!healthRuns) {
+      return { status: 'failed', message: 'No running workouts found in Apple Health export.' };
+    }
+
+    return { status: 'parsed', files: [{ fileName: file.name, runs: healthRuns }] };
+  }
+
+  // Strava bulk export: one staged file per activity track
+  const activities = await parseStravaArchive(unzipStravaArchive(buffer), onProgress);
+  if (activities.length === 0) {
+    return { status: 'failed', message: 'No running activities found in Strava export.' };
+  }
+
+  const files: ParsedImportEntry[] = [];
+  for (const activity of activities) {
+    const [run] = localizeRunDates([activity.run], options.timeZone);
+    const existing = files.find(f => f.fileName === activity.fileName);
+    if (existing) {
+      existing.runs.push(run);
+    } else {
+      files.push({ fileName: activity.fileName, runs: [run], original: activity.original });
+    }
+  }
+
+  return { status: 'parsed', files };
+};
+
+/**
+ * Parse each TCX/GPX/FIT/CSV entry of a zip through the same routing as a selected file
+ */
+const parseFileArchive = async (
+  buffer: ArrayBuffer,
+  options: ParseImportFileOptions,
+  onProgress?: (progress: number) => void
+): Promise<ParsedImportFile> => {
+  const entries = Object.entries(unzipFileArchive(buffer));
+  if (entries.length === 0) {
+    return {
+      status: 'failed',
+      message: 'ZIP file holds no TCX, GPX, FIT or CSV files.'
+    };
+  }
+
+  const results: { fileName: string; result: ParsedImportFile }[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const [fileName, data] = entries[i];
+    const result = await parseImportFile(
+      new File([data], fileName),
+      options,
+      progress => onProgress?.((i + progress) / entries.length)
+    );
+    results.push({ fileName, result });
+    onProgress?.((i + 1) / entries.length);
+  }
+
+  return { status: 'archive', entries: results };
+};
@@ -0,0 +1,138 @@
+import { NewRunData, Run } from '../types';
+import { ParsedRunData } from './garminParser';
+import { calculatePace } from './calculations';
+import { DuplicateCheck, findDuplicate, getRunFingerprint } from './duplicateDetection';
+
+export type StagedAction = 'new' | 'merge';
+
+export interface StagedRun {
+  id: string;
+  fileName: string;
+  position: number; // of the file in the selection, as selected files can share a name
+  run: ParsedRunData;
+  included: boolean;
+  action: StagedAction;
+  duplicate: DuplicateCheck;
+  duplicateInBatch: boolean;
+  rawDistance?: number; // in miles, GPS distance before noise filtering
+}
+
+// Key of a parsed file: its position in the selection and its name inside an archive
+export const getFileKey = (position: number, fileName: string): string => `${position}-${fileName}`;
+
+/**
+ * Build staged rows for the import preview from parsed files.
+ * Rows already imported, or repeated within the selected files, start excluded.
+ * Rows keep the file's position in the selection; files without one are numbered in order.
+ */
+export const stageParsedRuns = (
+  files: { fileName: string; runs: ParsedRunData[]; position?: number }[],
+  existingRuns: Run[]
+): StagedRun[] => {
+  const rows: StagedRun[] = files.flatMap(({ fileName, runs, position }, fileIndex) =>
+    // The raw GPS distance is only shown in the preview, so it is kept off the run record
+    runs.map(({ raw_distance, ...run }, index) => ({
+      id: `${getFileKey(position ?? fileIndex, fileName)}-${index}`,
+      fileName,
+      position: position ?? fileIndex,
+      run,
+      included: true,
+      action: 'new' as StagedAction,
+      duplicate: { status: 'new' as const },
+      duplicateInBatch: false,
+      rawDistance: raw_distance
+    }))
+  );
+
+  return classifyStagedRuns(rows, existingRuns, true);
+};
+
+/**
+ * Re-run duplicate detection after rows change.
+ * With resetSelection, rows are included or excluded based on their status;
+ * otherwise the user's choices are kept and only the status is refreshed.
+ */
+export const classifyStagedRuns = (rows: StagedRun[], existingRuns: Run[], resetSelection = false): StagedRun[] => {
+  const seenFingerprints = new Set<string>();
+
+  return rows.map(row => {
+    const candidate = { ...row.run, source_file: row.fileName };
+    const fingerprint = getRunFingerprint(candidate);
+    const duplicate = findDuplicate(candidate, existingRuns);
+    const duplicateInBatch = seenFingerprints.has(fingerprint);
+
+    if (row.included) {
+      seenFingerprints.add(fingerprint);
+    }
+
+    const statusChanged = duplicate.status !== row.duplicate.status;
+    const action: StagedAction = duplicate.status === 'merged'
+      ? (statusChanged || resetSelection ? 'merge' : row.action)
+      : 'new';
+
+    return {
+      ...row,
+      duplicate,
+      duplicateInBatch,
+      action,
+      included: resetSelection
+        ? duplicate.status !== 'skipped' && !duplicateInBatch
+        : row.included
+    };
+  });
+};
+
+/**
+ * Apply an edit to a staged run, keeping pace in sync with distance
+ */
+export const updateStagedRun = (row: StagedRun, updates: Partial<ParsedRunData>): StagedRun => {
+  const run = { ...row.run, ...updates };
+
+  if (updates.distance !== undefined) {
+    run.pace = Math.round(calculatePace(run.distance, run.duration) * 100) / 100;
+  }
+
+  return { ...row, run };
+};
+
+/**
+ * Validation error for a staged row, or null when it can be imported
+ */
+export const getStagedRunError = (row: StagedRun): string | null => {
+  if (!row.run.date || isNaN(new Date(row.run.date).getTime())) {
+    return 'Invalid date';
+  }
+
+  if (!(row.run.distance > 0)) {
+    return 'Distance must be greater than 0';
+  }
+
+  return null;
+};
+
+// Batched imports send at most this many runs, or GPS points, per request
+const IMPORT_CHUNK_RUNS = 100;
+const IMPORT_CHUNK_POINTS = 50000;
+
+/**
+ * Split new runs into chunks small enough to insert in one request
+ */
+export const chunkNewRuns = (items: NewRunData[]): NewRunData[][] => {
+  const chunks: NewRunData[][] = [];
+  let chunk: NewRunData[] = [];
+  let pointCount = 0;
+
+  for (const item of items) {
+    const itemPoints = item.stream?.length || 0;
+    if (chunk.length > 0 && (chunk.length >= IMPORT_CHUNK_RUNS || pointCount + itemPoints > IMPORT_CHUNK_POINTS)) {
+      chunks.push(chunk);
+      chunk = [];
+      pointCount = 0;
+    }
+    chunk.push(item);
+    pointCount += itemPoints;
+  }
+
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+};
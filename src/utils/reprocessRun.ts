@@ -0,0 +1,37 @@
+import { Run, RunUpdates } from '../types';
+import { ParsedRunData } from './garminParser';
+import { parseImportFile } from './importFiles';
+
+/**
+ * Parse a run's original activity file again with the current parsers.
+ * Files holding several activities (TCX history files) are matched on the run's start time.
+ */
+export const reparseActivityFile = async (run: Run, file: File, timeZone: string | null): Promise<ParsedRunData | null> => {
+  const result = await parseImportFile(file, { csvDistanceUnit: 'auto', appleRouteFiles: [], timeZone });
+  if (result.status !== 'parsed') return null;
+
+  const parsedRuns = result.files.flatMap(parsed => parsed.runs);
+  return parsedRuns.find(parsed => run.start_time && parsed.start_time === new Date(run.start_time).toISOString())
+    || (parsedRuns.length === 1 ? parsedRuns[0] : null);
+};
+
+/**
+ * Fields of a run that are read from its activity file, replacing what the run has, edits included.
+ * Stats the file no longer has are cleared, rather than left from the earlier parse.
+ * Route, notes and feeling are the user's own and are left as they are.
+ */
+export const getReprocessUpdates = (parsed: ParsedRunData): RunUpdates => {
+  return {
+    date: parsed.date,
+    start_time: parsed.start_time ?? null,
+    distance: parsed.distance,
+    duration: parsed.duration,
+    pace: parsed.pace,
+    elevation_gain: parsed.elevation_gain ?? null,
+    elevation_loss: parsed.elevation_loss ?? null,
+    avg_heart_rate: parsed.avg_heart_rate ?? null,
+    max_heart_rate: parsed.max_heart_rate ?? null,
+    moving_time: parsed.moving_time ?? null,
+    elapsed_time: parsed.elapsed_time ?? null
+  };
+};
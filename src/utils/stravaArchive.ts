@@ -0,0 +1,175 @@
+import { unzipSync, gunzipSync } from 'fflate';
+import { parse } from 'date-fns';
+import { calculatePace } from './calculations';
+import { ParsedRunData, parseGarminFile, isRunningActivity, getLocalDate } from './garminParser';
+import { readCSVRecords } from './csvReader';
+
+export interface StravaActivityImport {
+  fileName: string; // track file inside the archive, or activities.csv when there is none
+  run: ParsedRunData;
+  original?: File; // decompressed track file, archived for download and reprocessing
+}
+
+const ACTIVITIES_FILE = 'activities.csv';
+
+const ACTIVITIES_FOLDER = 'activities/';
+
+/**
+ * Find the activities.csv of a Strava account export: the one with an activities/
+ * folder beside it, at the root of the zip or inside the folder the export was zipped in
+ */
+const findActivitiesFile = (entryNames: string[]): string | undefined => {
+  return entryNames.find(name => {
+    if (name !== ACTIVITIES_FILE && !name.endsWith(`/${ACTIVITIES_FILE}`)) return false;
+
+    const root = name.slice(0, name.length - ACTIVITIES_FILE.length);
+    return entryNames.some(entry => entry.startsWith(root + ACTIVITIES_FOLDER));
+  });
+};
+
+/**
+ * Check whether a zip's entries follow the layout of a Strava account export
+ */
+export const isStravaArchive = (entryNames: string[]): boolean => {
+  return findActivitiesFile(entryNames) !== undefined;
+};
+
+/**
+ * Unpack a Strava bulk export (.zip) in the browser.
+ * Only activities.csv and the activities/ folder are extracted.
+ */
+export const unzipStravaArchive = (buffer: ArrayBuffer): Record<string, Uint8Array> => {
+  return unzipSync(new Uint8Array(buffer), {
+    filter: file => file.name.endsWith(ACTIVITIES_FILE) || file.name.includes(ACTIVITIES_FOLDER)
+  });
+};
+
+/**
+ * Parse every running activity in a Strava export.
+ * Activities are matched to their GPX/TCX/FIT track (optionally gzipped) through
+ * the Filename column; activities without a track fall back to the CSV totals.
+ * onProgress receives the fraction of activities parsed (0-1).
+ */
+export const parseStravaArchive = async (
+  entries: Record<string, Uint8Array>,
+  onProgress?: (progress: number) => void
+): Promise<StravaActivityImport[]> => {
+  const csvPath = findActivitiesFile(Object.keys(entries));
+  if (!csvPath) {
+    throw new Error('No activities.csv found in Strava archive');
+  }
+
+  // Track paths in the CSV are relative to the folder holding activities.csv
+  const root = csvPath.slice(0, csvPath.length - ACTIVITIES_FILE.length);
+  // Activity descriptions may span several lines, so records are read with a full CSV reader
+  const [headerRecord, ...rows] = Array.from(readCSVRecords(new TextDecoder().decode(entries[csvPath])));
+  if (!headerRecord || rows.length === 0) {
+    throw new Error('Strava activities.csv has no activities');
+  }
+
+  // Strava repeats some headers (Distance, Elapsed Time); the first occurrence is the summary value
+  const headers = headerRecord.values;
+  const column = (name: string) => headers.indexOf(name);
+  const dateIndex = column('Activity Date');
+  const nameIndex = column('Activity Name');
+  const typeIndex = column('Activity Type');
+  const descriptionIndex = column('Activity Description');
+  const elapsedIndex = column('Elapsed Time');
+  const movingIndex = column('Moving Time');
+  const distanceIndex = column('Distance');
+  const fileIndex = column('Filename');
+
+  if (dateIndex === -1 || typeIndex === -1) {
+    throw new Error('Strava activities.csv is missing Activity Date or Activity Type');
+  }
+
+  const activities: StravaActivityImport[] = [];
+
+  for (let i = 0; i < rows.length; i++) {
+    onProgress?.(i / rows.length);
+    const { values, line, error: readError } = rows[i];
+    if (readError) {
+      console.warn(`Skipping Strava activity on line ${line}: ${readError}`);
+      continue;
+    }
+
+    // Filter for running activities only
+    if (!isRunningActivity(values[typeIndex] || '')) {
+      continue;
+    }
+
+    const name = nameIndex !== -1 ? values[nameIndex] : '';
+    const description = descriptionIndex !== -1 ? values[descriptionIndex] : '';
+    const trackPath = fileIndex !== -1 ? values[fileIndex] : '';
+
+    try {
+      const track = trackPath && entries[root + trackPath]
+        ? await parseTrackFile(trackPath, entries[root + trackPath])
+        : null;
+      const run = track?.run || parseActivityRow(values[dateIndex], values[distanceIndex], values[elapsedIndex], values[movingIndex]);
+
+      if (!run) {
+        console.warn(`Skipping Strava activity on line ${line}: no usable data`);
+        continue;
+      }
+
+      activities.push({
+        fileName: track ? trackPath : ACTIVITIES_FILE,
+        run: {
+          ...run,
+          route: name || run.route,
+          notes: description || 'Imported from Strava export'
+        },
+        original: track?.original
+      });
+    } catch (error) {
+      console.warn(`Skipping Strava activity on line ${line}:`, error);
+    }
+  }
+
+  return activities;
+};
+
+// Decompress and parse a GPX/TCX/FIT track file from the archive, keeping the decompressed file
+// Each Strava track file holds the single activity its row describes
+const parseTrackFile = async (path: string, data: Uint8Array): Promise<{ run: ParsedRunData; original: File } | null> => {
+  const isGzipped = path.toLowerCase().endsWith('.gz');
+  const bytes = isGzipped ? gunzipSync(data) : data;
+  const fileName = (path.split('/').pop() || path).replace(/\.gz$/i, '');
+  const fileType = fileName.toLowerCase().split('.').pop() || '';
+
+  // Strava TCX files are known to start with whitespace before the XML declaration
+  const content = fileType === 'fit' ? bytes.slice().buffer : new TextDecoder().decode(bytes).trimStart();
+  const runs = await parseGarminFile(content, fileType);
+
+  return runs?.[0] ? { run: runs[0], original: new File([content], fileName) } : null;
+};
+
+// Build a run from the activities.csv summary (distance in km, elapsed and moving time in seconds)
+// Activity Date is written in UTC
+const parseActivityRow = (dateStr?: string, distanceStr?: string, elapsedStr?: string, movingStr?: string): ParsedRunData | null => {
+  if (!dateStr || !distanceStr || !elapsedStr) return null;
+
+  const fields = parse(dateStr, 'MMM d, yyyy, h:mm:ss a', new Date());
+  const date = new Date(Date.UTC(
+    fields.getFullYear(), fields.getMonth(), fields.getDate(), fields.getHours(), fields.getMinutes(), fields.getSeconds()
+  ));
+  const distance = parseFloat(distanceStr.replace(/,/g, '')) * 0.621371;
+  const duration = parseFloat(elapsedStr) / 60;
+  const movingTime = parseFloat(movingStr || '') / 60;
+
+  if (isNaN(date.getTime()) || !(distance > 0) || !(duration > 0)) {
+    return null;
+  }
+
+  return {
+    date: getLocalDate(date),
+    start_time: date.toISOString(),
+    distance: Math.round(distance * 100) / 100,
+    duration: Math.round(duration * 100) / 100,
+    pace: calculatePace(distance, duration),
+    feeling_rating: 3, // Default to average feeling
+    moving_time: movingTime > 0 ? Math.round(movingTime * 100) / 100 : undefined,
+    elapsed_time: Math.round(duration * 100) / 100
+  };
+};
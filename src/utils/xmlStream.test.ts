@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseXMLStream } from './xmlStream';
+
+// Element paths and text in the order elements close
+const collectClosed = (content: string) => {
+  const closed: { path: string; text: string }[] = [];
+  parseXMLStream(content, {
+    onClose: (_, text, path) => closed.push({ path: path.join('/'), text })
+  });
+  return closed;
+};
+
+describe('parseXMLStream', () => {
+  it('drops namespace prefixes from element names', () => {
+    const closed = collectClosed(
+      '<gpx:trkpt><gpx:extensions><gpxtpx:TrackPointExtension><gpxtpx:hr>142</gpxtpx:hr>' +
+      '</gpxtpx:TrackPointExtension></gpx:extensions></gpx:trkpt>'
+    );
+
+    expect(closed[0]).toEqual({ path: 'trkpt/extensions/TrackPointExtension/hr', text: '142' });
+  });
+
+  it('opens and closes self-closing elements with their attributes', () => {
+    const events: string[] = [];
+    parseXMLStream('<trk><trkpt lat="47.1" lon=\'8.5\'/><trkpt lat="47.2" lon="8.6" /></trk>', {
+      onOpen: (name, attributes) => events.push(`open ${name} ${attributes.lat ?? ''}`.trim()),
+      onClose: (name, text) => events.push(`close ${name} "${text}"`)
+    });
+
+    expect(events).toEqual([
+      'open trk',
+      'open trkpt 47.1',
+      'close trkpt ""',
+      'open trkpt 47.2',
+      'close trkpt ""',
+      'close trk ""'
+    ]);
+  });
+
+  it('skips the declaration and comments, and reads CDATA and entities as text', () => {
+    const closed = collectClosed(
+      '<?xml version="1.0"?><!-- exported --><name><![CDATA[Park <loop>]]> &amp; back &#x2014;</name>'
+    );
+
+    expect(closed).toEqual([{ path: 'name', text: 'Park <loop> & back —' }]);
+  });
+
+  it('throws on unbalanced tags', () => {
+    expect(() => collectClosed('<trk><trkseg></trk>')).toThrow('Invalid XML format');
+    expect(() => collectClosed('<trk><trkseg>')).toThrow('Invalid XML format');
+  });
+});
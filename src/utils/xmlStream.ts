@@ -0,0 +1,125 @@
+export interface XMLStreamHandler {
+  // path holds the local names of the open elements, ending with this one
+  onOpen?: (name: string, attributes: Record<string, string>, path: string[]) => void;
+  // text is the element's own character data; only meaningful for leaf elements
+  onClose?: (name: string, text: string, path: string[]) => void;
+}
+
+// Characters scanned between progress callbacks
+const PROGRESS_STEP = 256 * 1024;
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+const decodeEntities = (text: string): string => {
+  if (!text.includes('&')) return text;
+
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal: string) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+};
+
+/**
+ * Drop a namespace prefix, so gpxtpx:hr and hr are handled alike
+ */
+const toLocalName = (name: string): string => {
+  const separator = name.indexOf(':');
+  return separator === -1 ? name : name.slice(separator + 1);
+};
+
+/**
+ * Read the attributes of an XML start tag into a name/value map
+ */
+export const parseXMLAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attributePattern.exec(tag)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+
+  return attributes;
+};
+
+/**
+ * Walk an XML document tag by tag without building a DOM, so it runs in Web
+ * Workers and Node and keeps memory flat on large track files.
+ * Throws on unbalanced tags. onProgress receives the fraction scanned (0-1).
+ */
+export const parseXMLStream = (
+  content: string,
+  handler: XMLStreamHandler,
+  onProgress?: (progress: number) => void
+): void => {
+  const path: string[] = [];
+  let text = '';
+  let index = 0;
+  let nextProgress = PROGRESS_STEP;
+
+  while (index < content.length) {
+    const tagStart = content.indexOf('<', index);
+    if (tagStart === -1) break;
+
+    if (tagStart > index) {
+      text += content.slice(index, tagStart);
+    }
+
+    let tagEnd: number;
+    if (content.startsWith('<!--', tagStart)) {
+      tagEnd = content.indexOf('-->', tagStart) + 2;
+    } else if (content.startsWith('<![CDATA[', tagStart)) {
+      const cdataEnd = content.indexOf(']]>', tagStart);
+      tagEnd = cdataEnd === -1 ? -1 : cdataEnd + 2;
+      if (cdataEnd !== -1) text += content.slice(tagStart + 9, cdataEnd);
+    } else if (content.startsWith('<?', tagStart)) {
+      tagEnd = content.indexOf('?>', tagStart) + 1;
+    } else {
+      tagEnd = content.indexOf('>', tagStart);
+    }
+
+    if (tagEnd <= tagStart) {
+      throw new Error('Invalid XML format');
+    }
+
+    const tag = content.slice(tagStart + 1, tagEnd);
+    if (tag.startsWith('/')) {
+      const name = toLocalName(tag.slice(1).trim());
+      if (path[path.length - 1] !== name) {
+        throw new Error('Invalid XML format');
+      }
+      handler.onClose?.(name, decodeEntities(text).trim(), path);
+      path.pop();
+      text = '';
+    } else if (!tag.startsWith('!') && !tag.startsWith('?')) {
+      const selfClosing = tag.endsWith('/');
+      const rawName = tag.match(/^[^\s/>]+/)?.[0] || '';
+      const name = toLocalName(rawName);
+
+      path.push(name);
+      text = '';
+      handler.onOpen?.(name, parseXMLAttributes(tag.slice(rawName.length)), path);
+      if (selfClosing) {
+        handler.onClose?.(name, '', path);
+        path.pop();
+      }
+    }
+
+    index = tagEnd + 1;
+    if (onProgress && index >= nextProgress) {
+      onProgress(index / content.length);
+      nextProgress = index + PROGRESS_STEP;
+    }
+  }
+
+  if (path.length > 0) {
+    throw new Error('Invalid XML format');
+  }
+
+  onProgress?.(1);
+};
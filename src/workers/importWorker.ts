@@ -0,0 +1,46 @@
+import { parseImportFile, parseMappedCSVFile, ParseImportFileOptions, ParsedImportFile } from '../utils/importFiles';
+import { CsvColumnMapping } from '../types';
+
+// A selected file, or a CSV file read again with the columns mapped in the wizard
+export type ImportWorkerJob =
+  | { type: 'file'; file: File; options: ParseImportFileOptions }
+  | { type: 'csv'; fileName: string; content: string; mapping: CsvColumnMapping };
+
+export type ImportWorkerRequest = ImportWorkerJob & { id: number };
+
+export type ImportWorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: ParsedImportFile };
+
+// Smallest progress change worth posting back, so huge files don't flood the main thread
+const PROGRESS_STEP = 0.01;
+
+// Parses dropped files off the main thread; one file per request
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const request = event.data;
+  let lastProgress = 0;
+
+  const onProgress = (progress: number) => {
+    if (progress - lastProgress < PROGRESS_STEP) return;
+    lastProgress = progress;
+
+    const message: ImportWorkerResponse = { id: request.id, type: 'progress', progress };
+    self.postMessage(message);
+  };
+
+  // A throw would otherwise leave the main thread waiting for a result that never comes
+  let result: ParsedImportFile;
+  try {
+    result = request.type === 'file'
+      ? await parseImportFile(request.file, request.options, onProgress)
+      : parseMappedCSVFile(request.fileName, request.content, request.mapping, onProgress);
+  } catch (error) {
+    result = {
+      status: 'failed',
+      message: `Error processing file: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+
+  const message: ImportWorkerResponse = { id: request.id, type: 'result', result };
+  self.postMessage(message);
+};
@@ -0,0 +1,61 @@
+/*
+  # Add run_streams table for imported GPS tracks
+
+  1. New Tables
+    - `run_streams`
+      - `id` (uuid)
+      - `run_id` (uuid, references runs)
+      - `user_id` (uuid, references profiles)
+      - `points` (jsonb, array of time/lat/lon/elevation/heart_rate points)
+      - `point_count` (integer)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own streams,
+      matching the existing runs policies
+*/
+
+-- Create run_streams table
+CREATE TABLE IF NOT EXISTS run_streams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL UNIQUE REFERENCES runs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  points jsonb NOT NULL DEFAULT '[]'::jsonb,
+  point_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE run_streams IS 'GPS track streams recorded for imported runs';
+COMMENT ON COLUMN run_streams.points IS 'Array of {time, lat, lon, elevation, heart_rate} track points';
+
+CREATE INDEX IF NOT EXISTS idx_run_streams_user_id ON run_streams(user_id);
+
+-- Enable RLS
+ALTER TABLE run_streams ENABLE ROW LEVEL SECURITY;
+
+-- Run stream policies
+CREATE POLICY "Users can read own run streams"
+  ON run_streams
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own run streams"
+  ON run_streams
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own run streams"
+  ON run_streams
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own run streams"
+  ON run_streams
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
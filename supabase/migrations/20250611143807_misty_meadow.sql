@@ -0,0 +1,17 @@
+/*
+  # Track the source file of imported runs
+
+  1. Changes
+    - Add `source_file` (text, optional) to `runs` so re-imports of the same
+      file can be detected
+    - Add an index on `runs(user_id, date, source_file)` for duplicate lookups
+
+  2. Security
+    - No changes to existing RLS policies
+*/
+
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS source_file text;
+
+COMMENT ON COLUMN runs.source_file IS 'Name of the file the run was imported from';
+
+CREATE INDEX IF NOT EXISTS idx_runs_user_date_source ON runs(user_id, date, source_file);
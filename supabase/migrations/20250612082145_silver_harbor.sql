@@ -0,0 +1,68 @@
+/*
+  # Add import_batches table for import history and undo
+
+  1. New Tables
+    - `import_batches`
+      - `id` (uuid)
+      - `user_id` (uuid, references profiles)
+      - `file_names` (text[], files included in the import)
+      - `parser` (text, parsers used, e.g. "csv, tcx")
+      - `run_count` (integer, runs created)
+      - `merged_count` (integer, records merged into existing runs)
+      - `skipped_count` (integer, records skipped as duplicates or excluded)
+      - `failed_count` (integer, records that could not be saved)
+      - `run_ids` (uuid[], runs created by the import)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own import batches
+*/
+
+-- Create import_batches table
+CREATE TABLE IF NOT EXISTS import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  file_names text[] NOT NULL DEFAULT '{}',
+  parser text NOT NULL,
+  run_count integer NOT NULL DEFAULT 0,
+  merged_count integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  run_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE import_batches IS 'File imports, recorded so they can be reviewed and rolled back';
+COMMENT ON COLUMN import_batches.run_ids IS 'Runs created by this import';
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_created ON import_batches(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+-- Import batch policies
+CREATE POLICY "Users can read own import batches"
+  ON import_batches
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own import batches"
+  ON import_batches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own import batches"
+  ON import_batches
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own import batches"
+  ON import_batches
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
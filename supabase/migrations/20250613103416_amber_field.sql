@@ -0,0 +1,57 @@
+/*
+  # Add csv_mapping_presets table for saved CSV column mappings
+
+  1. New Tables
+    - `csv_mapping_presets`
+      - `id` (uuid)
+      - `user_id` (uuid, references profiles)
+      - `name` (text, unique per user)
+      - `mapping` (jsonb, header name per run field, date format and distance unit)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own mapping presets
+*/
+
+-- Create csv_mapping_presets table
+CREATE TABLE IF NOT EXISTS csv_mapping_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mapping jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+COMMENT ON TABLE csv_mapping_presets IS 'Named CSV column mappings saved from the import wizard';
+COMMENT ON COLUMN csv_mapping_presets.mapping IS 'Object with columns (run field -> CSV header), date_format and distance_unit';
+
+-- Enable RLS
+ALTER TABLE csv_mapping_presets ENABLE ROW LEVEL SECURITY;
+
+-- CSV mapping preset policies
+CREATE POLICY "Users can read own csv mapping presets"
+  ON csv_mapping_presets
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own csv mapping presets"
+  ON csv_mapping_presets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own csv mapping presets"
+  ON csv_mapping_presets
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own csv mapping presets"
+  ON csv_mapping_presets
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,16 @@
+/*
+  # Store elevation gain and loss on runs
+
+  1. Changes
+    - Add `elevation_gain` (numeric, optional, feet) to `runs`
+    - Add `elevation_loss` (numeric, optional, feet) to `runs`
+
+  2. Security
+    - No changes to existing RLS policies
+*/
+
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS elevation_gain numeric;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS elevation_loss numeric;
+
+COMMENT ON COLUMN runs.elevation_gain IS 'Smoothed elevation gain in feet, computed from the imported track';
+COMMENT ON COLUMN runs.elevation_loss IS 'Smoothed elevation loss in feet, computed from the imported track';
@@ -0,0 +1,16 @@
+/*
+  # Store heart rate on runs
+
+  1. Changes
+    - Add `avg_heart_rate` (integer, optional, bpm) to `runs`
+    - Add `max_heart_rate` (integer, optional, bpm) to `runs`
+
+  2. Security
+    - No changes to existing RLS policies
+*/
+
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS avg_heart_rate integer;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS max_heart_rate integer;
+
+COMMENT ON COLUMN runs.avg_heart_rate IS 'Average heart rate in bpm from the imported file';
+COMMENT ON COLUMN runs.max_heart_rate IS 'Maximum heart rate in bpm from the imported file';
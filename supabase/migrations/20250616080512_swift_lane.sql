@@ -0,0 +1,70 @@
+/*
+  # Add run_laps table for lap and split storage
+
+  1. New Tables
+    - `run_laps`
+      - `id` (uuid)
+      - `run_id` (uuid, references runs)
+      - `user_id` (uuid, references profiles)
+      - `lap_index` (integer, order within the run)
+      - `distance` (numeric, miles)
+      - `duration` (numeric, minutes)
+      - `pace` (numeric, minutes per mile)
+      - `avg_heart_rate` (integer, optional, bpm)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Add policies for authenticated users to manage their own laps
+*/
+
+-- Create run_laps table
+CREATE TABLE IF NOT EXISTS run_laps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  lap_index integer NOT NULL,
+  distance numeric NOT NULL,
+  duration numeric NOT NULL,
+  pace numeric NOT NULL,
+  avg_heart_rate integer,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (run_id, lap_index)
+);
+
+COMMENT ON TABLE run_laps IS 'Laps recorded by the device or splits entered manually for a run';
+COMMENT ON COLUMN run_laps.lap_index IS 'Order of the lap within the run, starting at 0';
+COMMENT ON COLUMN run_laps.distance IS 'Distance in miles';
+COMMENT ON COLUMN run_laps.duration IS 'Duration in minutes';
+COMMENT ON COLUMN run_laps.pace IS 'Pace in minutes per mile';
+
+CREATE INDEX IF NOT EXISTS idx_run_laps_user_id ON run_laps(user_id);
+
+-- Enable RLS
+ALTER TABLE run_laps ENABLE ROW LEVEL SECURITY;
+
+-- Run lap policies
+CREATE POLICY "Users can read own run laps"
+  ON run_laps
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own run laps"
+  ON run_laps
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own run laps"
+  ON run_laps
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own run laps"
+  ON run_laps
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,22 @@
+/*
+  # Store moving and elapsed time on runs
+
+  1. Changes
+    - Add `moving_time` (numeric, optional, minutes excluding pauses) to `runs`
+    - Add `elapsed_time` (numeric, optional, minutes from start to finish) to `runs`
+    - Add `pace_time_basis` (text, 'moving' or 'elapsed', default 'moving') to `profiles`
+
+  2. Security
+    - No changes to existing RLS policies
+*/
+
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS moving_time numeric;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS elapsed_time numeric;
+
+COMMENT ON COLUMN runs.moving_time IS 'Moving time in minutes, excluding detected pauses';
+COMMENT ON COLUMN runs.elapsed_time IS 'Elapsed time in minutes from start to finish';
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS pace_time_basis text NOT NULL DEFAULT 'moving'
+  CHECK (pace_time_basis IN ('moving', 'elapsed'));
+
+COMMENT ON COLUMN profiles.pace_time_basis IS 'Whether moving or elapsed time drives pace and stats';
@@ -0,0 +1,18 @@
+/*
+  # Store run start times and the user's timezone
+
+  1. Changes
+    - Add `start_time` (timestamptz, optional, start of the run from the imported file) to `runs`
+    - Add `time_zone` (text, optional, IANA timezone imported runs are dated in) to `profiles`
+
+  2. Security
+    - No changes to existing RLS policies
+*/
+
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS start_time timestamptz;
+
+COMMENT ON COLUMN runs.start_time IS 'Start of the run as recorded in the imported file';
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS time_zone text;
+
+COMMENT ON COLUMN profiles.time_zone IS 'IANA timezone imported runs are dated in, null to follow the device';
@@ -0,0 +1,49 @@
+/*
+  # Batched run imports
+
+  1. Changes
+    - Add `import_runs(items jsonb)` function that inserts a batch of runs with their
+      GPS streams and laps in a single transaction and returns the created runs in order
+    - Each item is `{ run, stream, laps }`; `stream` and `laps` may be null
+
+  2. Security
+    - Runs as the calling user (SECURITY INVOKER), so existing RLS policies apply
+    - Rows are always owned by `auth.uid()`
+*/
+
+CREATE OR REPLACE FUNCTION import_runs(items jsonb)
+RETURNS SETOF runs AS $$
+DECLARE
+  item jsonb;
+  new_run runs;
+BEGIN
+  FOR item IN SELECT value FROM jsonb_array_elements(items)
+  LOOP
+    INSERT INTO runs (
+      user_id, date, distance, duration, pace, route, notes, feeling_rating, source_file,
+      elevation_gain, elevation_loss, avg_heart_rate, max_heart_rate, moving_time, elapsed_time, start_time
+    )
+    SELECT
+      auth.uid(), r.date, r.distance, r.duration, r.pace, r.route, r.notes, r.feeling_rating, r.source_file,
+      r.elevation_gain, r.elevation_loss, r.avg_heart_rate, r.max_heart_rate, r.moving_time, r.elapsed_time, r.start_time
+    FROM jsonb_populate_record(NULL::runs, item->'run') r
+    RETURNING * INTO new_run;
+
+    IF jsonb_typeof(item->'stream') = 'array' AND jsonb_array_length(item->'stream') > 0 THEN
+      INSERT INTO run_streams (run_id, user_id, points, point_count)
+      VALUES (new_run.id, new_run.user_id, item->'stream', jsonb_array_length(item->'stream'));
+    END IF;
+
+    IF jsonb_typeof(item->'laps') = 'array' THEN
+      INSERT INTO run_laps (run_id, user_id, lap_index, distance, duration, pace, avg_heart_rate)
+      SELECT new_run.id, new_run.user_id, lap.ordinality - 1, l.distance, l.duration, l.pace, l.avg_heart_rate
+      FROM jsonb_array_elements(item->'laps') WITH ORDINALITY AS lap(value, ordinality),
+        jsonb_populate_record(NULL::run_laps, lap.value) l;
+    END IF;
+
+    RETURN NEXT new_run;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+COMMENT ON FUNCTION import_runs(jsonb) IS 'Insert a batch of imported runs with their streams and laps in one transaction';
@@ -0,0 +1,78 @@
+/*
+  # Keep original activity files
+
+  1. Changes
+    - Add `source_path` (text, optional, storage path of the original TCX/GPX/FIT file) to `runs`
+    - Create the private `activity-files` storage bucket; files are stored under `<user id>/`
+    - Recreate `import_runs` so batched imports keep `source_path`
+
+  2. Security
+    - Authenticated users can read, upload and delete files only inside their own folder
+*/
+
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS source_path text;
+
+COMMENT ON COLUMN runs.source_path IS 'Storage path of the original activity file in the activity-files bucket';
+
+CREATE OR REPLACE FUNCTION import_runs(items jsonb)
+RETURNS SETOF runs AS $$
+DECLARE
+  item jsonb;
+  new_run runs;
+BEGIN
+  FOR item IN SELECT value FROM jsonb_array_elements(items)
+  LOOP
+    INSERT INTO runs (
+      user_id, date, distance, duration, pace, route, notes, feeling_rating, source_file,
+      elevation_gain, elevation_loss, avg_heart_rate, max_heart_rate, moving_time, elapsed_time, start_time,
+      source_path
+    )
+    SELECT
+      auth.uid(), r.date, r.distance, r.duration, r.pace, r.route, r.notes, r.feeling_rating, r.source_file,
+      r.elevation_gain, r.elevation_loss, r.avg_heart_rate, r.max_heart_rate, r.moving_time, r.elapsed_time, r.start_time,
+      r.source_path
+    FROM jsonb_populate_record(NULL::runs, item->'run') r
+    RETURNING * INTO new_run;
+
+    IF jsonb_typeof(item->'stream') = 'array' AND jsonb_array_length(item->'stream') > 0 THEN
+      INSERT INTO run_streams (run_id, user_id, points, point_count)
+      VALUES (new_run.id, new_run.user_id, item->'stream', jsonb_array_length(item->'stream'));
+    END IF;
+
+    IF jsonb_typeof(item->'laps') = 'array' THEN
+      INSERT INTO run_laps (run_id, user_id, lap_index, distance, duration, pace, avg_heart_rate)
+      SELECT new_run.id, new_run.user_id, lap.ordinality - 1, l.distance, l.duration, l.pace, l.avg_heart_rate
+      FROM jsonb_array_elements(item->'laps') WITH ORDINALITY AS lap(value, ordinality),
+        jsonb_populate_record(NULL::run_laps, lap.value) l;
+    END IF;
+
+    RETURN NEXT new_run;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('activity-files', 'activity-files', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can read own activity files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload own activity files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own activity files" ON storage.objects;
+
+CREATE POLICY "Users can read own activity files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'activity-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own activity files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'activity-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own activity files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'activity-files' AND (storage.foldername(name))[1] = auth.uid()::text);
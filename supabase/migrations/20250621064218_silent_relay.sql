@@ -0,0 +1,59 @@
+/*
+  # Import runs for a user from the command line
+
+  1. Changes
+    - Replace `import_runs(items jsonb)` with `import_runs(items jsonb, for_user uuid DEFAULT NULL)`,
+      so the import CLI can insert runs, streams and laps in one transaction like the app does
+
+  2. Security
+    - Signed-in users still import only as themselves (`auth.uid()`); `for_user` is ignored for them
+    - `for_user` is only honored for the service role
+*/
+
+DROP FUNCTION IF EXISTS import_runs(jsonb);
+
+CREATE OR REPLACE FUNCTION import_runs(items jsonb, for_user uuid DEFAULT NULL)
+RETURNS SETOF runs AS $$
+DECLARE
+  item jsonb;
+  new_run runs;
+  owner_id uuid;
+BEGIN
+  -- Only the service role (the import CLI) may import for another user
+  owner_id := CASE WHEN auth.role() = 'service_role' THEN for_user ELSE auth.uid() END;
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'import_runs needs a signed-in user, or for_user when called with the service role';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(items)
+  LOOP
+    INSERT INTO runs (
+      user_id, date, distance, duration, pace, route, notes, feeling_rating, source_file,
+      elevation_gain, elevation_loss, avg_heart_rate, max_heart_rate, moving_time, elapsed_time, start_time,
+      source_path
+    )
+    SELECT
+      owner_id, r.date, r.distance, r.duration, r.pace, r.route, r.notes, r.feeling_rating, r.source_file,
+      r.elevation_gain, r.elevation_loss, r.avg_heart_rate, r.max_heart_rate, r.moving_time, r.elapsed_time, r.start_time,
+      r.source_path
+    FROM jsonb_populate_record(NULL::runs, item->'run') r
+    RETURNING * INTO new_run;
+
+    IF jsonb_typeof(item->'stream') = 'array' AND jsonb_array_length(item->'stream') > 0 THEN
+      INSERT INTO run_streams (run_id, user_id, points, point_count)
+      VALUES (new_run.id, new_run.user_id, item->'stream', jsonb_array_length(item->'stream'));
+    END IF;
+
+    IF jsonb_typeof(item->'laps') = 'array' THEN
+      INSERT INTO run_laps (run_id, user_id, lap_index, distance, duration, pace, avg_heart_rate)
+      SELECT new_run.id, new_run.user_id, lap.ordinality - 1, l.distance, l.duration, l.pace, l.avg_heart_rate
+      FROM jsonb_array_elements(item->'laps') WITH ORDINALITY AS lap(value, ordinality),
+        jsonb_populate_record(NULL::run_laps, lap.value) l;
+    END IF;
+
+    RETURN NEXT new_run;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+COMMENT ON FUNCTION import_runs(jsonb, uuid) IS 'Insert a batch of imported runs with their streams and laps in one transaction';
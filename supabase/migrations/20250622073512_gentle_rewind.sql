@@ -0,0 +1,14 @@
+/*
+  # Record runs filled in by an import, so undo can clear them again
+
+  1. Changes
+    - Add `merged_runs` (jsonb, default '[]') to `import_batches`: one entry per existing run
+      the import merged into, with the fields it filled in and whether it added a track or laps
+
+  2. Security
+    - No changes to existing RLS policies
+*/
+
+ALTER TABLE import_batches ADD COLUMN IF NOT EXISTS merged_runs jsonb NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN import_batches.merged_runs IS 'Existing runs this import filled in, with the fields and tracks it added';
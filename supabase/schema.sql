@@ -5,14 +5,20 @@
     - `profiles` - User profile information
     - `runs` - Individual running activity records  
     - `goals` - User-defined running goals
+    - `run_streams` - GPS track streams for imported runs
+    - `import_batches` - File import history for undo
+    - `csv_mapping_presets` - Saved CSV column mapping presets
+    - `run_laps` - Per-lap splits for runs
     
   2. Security
     - Enable RLS on all tables
     - Add policies for authenticated users to manage their own data
+    - Private `activity-files` storage bucket, readable and writable only in the user's own folder
     
   3. Functions & Triggers
     - Auto-update timestamps
     - Auto-create profiles for new users
+    - Batched run imports
     
   4. Views
     - Analytics views for run statistics and summaries
@@ -46,11 +52,15 @@ $$ LANGUAGE plpgsql SECURITY DEFINER;
 CREATE TABLE IF NOT EXISTS profiles (
   id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
   username text UNIQUE,
+  pace_time_basis text NOT NULL DEFAULT 'moving' CHECK (pace_time_basis IN ('moving', 'elapsed')),
+  time_zone text,
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now()
 );
 
 COMMENT ON TABLE profiles IS 'User profile information linked to Supabase auth';
+COMMENT ON COLUMN profiles.pace_time_basis IS 'Whether moving or elapsed time drives pace and stats';
+COMMENT ON COLUMN profiles.time_zone IS 'IANA timezone imported runs are dated in, null to follow the device';
 
 -- Create runs table
 CREATE TABLE IF NOT EXISTS runs (
@@ -63,6 +73,15 @@ CREATE TABLE IF NOT EXISTS runs (
   route text,
   notes text,
   feeling_rating integer NOT NULL CHECK (feeling_rating >= 1 AND feeling_rating <= 5),
+  source_file text,
+  elevation_gain numeric,
+  elevation_loss numeric,
+  avg_heart_rate integer,
+  max_heart_rate integer,
+  moving_time numeric,
+  elapsed_time numeric,
+  start_time timestamptz,
+  source_path text,
   created_at timestamptz DEFAULT now(),
   updated_at timestamptz DEFAULT now()
 );
@@ -72,6 +91,15 @@ COMMENT ON COLUMN runs.distance IS 'Distance in miles';
 COMMENT ON COLUMN runs.duration IS 'Duration in minutes';
 COMMENT ON COLUMN runs.pace IS 'Pace in minutes per mile';
 COMMENT ON COLUMN runs.feeling_rating IS 'Subjective feeling rating from 1-5';
+COMMENT ON COLUMN runs.source_file IS 'Name of the file the run was imported from';
+COMMENT ON COLUMN runs.elevation_gain IS 'Smoothed elevation gain in feet, computed from the imported track';
+COMMENT ON COLUMN runs.elevation_loss IS 'Smoothed elevation loss in feet, computed from the imported track';
+COMMENT ON COLUMN runs.avg_heart_rate IS 'Average heart rate in bpm from the imported file';
+COMMENT ON COLUMN runs.max_heart_rate IS 'Maximum heart rate in bpm from the imported file';
+COMMENT ON COLUMN runs.moving_time IS 'Moving time in minutes, excluding detected pauses';
+COMMENT ON COLUMN runs.elapsed_time IS 'Elapsed time in minutes from start to finish';
+COMMENT ON COLUMN runs.start_time IS 'Start of the run as recorded in the imported file';
+COMMENT ON COLUMN runs.source_path IS 'Storage path of the original activity file in the activity-files bucket';
 
 -- Create goals table
 CREATE TABLE IF NOT EXISTS goals (
@@ -87,6 +115,71 @@ CREATE TABLE IF NOT EXISTS goals (
   updated_at timestamptz DEFAULT now()
 );
 
+-- Create run_streams table
+CREATE TABLE IF NOT EXISTS run_streams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL UNIQUE REFERENCES runs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  points jsonb NOT NULL DEFAULT '[]'::jsonb,
+  point_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE run_streams IS 'GPS track streams recorded for imported runs';
+COMMENT ON COLUMN run_streams.points IS 'Array of {time, lat, lon, elevation, heart_rate} track points';
+
+-- Create import_batches table
+CREATE TABLE IF NOT EXISTS import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  file_names text[] NOT NULL DEFAULT '{}',
+  parser text NOT NULL,
+  run_count integer NOT NULL DEFAULT 0,
+  merged_count integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  run_ids uuid[] NOT NULL DEFAULT '{}',
+  merged_runs jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE import_batches IS 'File imports, recorded so they can be reviewed and rolled back';
+COMMENT ON COLUMN import_batches.run_ids IS 'Runs created by this import';
+COMMENT ON COLUMN import_batches.merged_runs IS 'Existing runs this import filled in, with the fields and tracks it added';
+
+-- Create csv_mapping_presets table
+CREATE TABLE IF NOT EXISTS csv_mapping_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mapping jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+COMMENT ON TABLE csv_mapping_presets IS 'Named CSV column mappings saved from the import wizard';
+COMMENT ON COLUMN csv_mapping_presets.mapping IS 'Object with columns (run field -> CSV header), date_format and distance_unit';
+
+-- Create run_laps table
+CREATE TABLE IF NOT EXISTS run_laps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  lap_index integer NOT NULL,
+  distance numeric NOT NULL,
+  duration numeric NOT NULL,
+  pace numeric NOT NULL,
+  avg_heart_rate integer,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (run_id, lap_index)
+);
+
+COMMENT ON TABLE run_laps IS 'Laps recorded by the device or splits entered manually for a run';
+COMMENT ON COLUMN run_laps.lap_index IS 'Order of the lap within the run, starting at 0';
+COMMENT ON COLUMN run_laps.distance IS 'Distance in miles';
+COMMENT ON COLUMN run_laps.duration IS 'Duration in minutes';
+COMMENT ON COLUMN run_laps.pace IS 'Pace in minutes per mile';
+
 -- Add constraint if it doesn't exist
 DO $$
 BEGIN
@@ -109,15 +202,26 @@ COMMENT ON COLUMN goals.completed IS 'Whether the goal has been completed';
 CREATE INDEX IF NOT EXISTS idx_runs_user_id ON runs(user_id);
 CREATE INDEX IF NOT EXISTS idx_runs_date ON runs(date DESC);
 CREATE INDEX IF NOT EXISTS idx_runs_user_date ON runs(user_id, date DESC);
+CREATE INDEX IF NOT EXISTS idx_runs_user_date_source ON runs(user_id, date, source_file);
 
 CREATE INDEX IF NOT EXISTS idx_goals_user_id ON goals(user_id);
 CREATE INDEX IF NOT EXISTS idx_goals_target_date ON goals(target_date);
 CREATE INDEX IF NOT EXISTS idx_goals_user_completed ON goals(user_id, completed);
 
+CREATE INDEX IF NOT EXISTS idx_run_streams_user_id ON run_streams(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_created ON import_batches(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_run_laps_user_id ON run_laps(user_id);
+
 -- Enable Row Level Security
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE runs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE run_streams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE csv_mapping_presets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE run_laps ENABLE ROW LEVEL SECURITY;
 
 -- Drop existing policies and recreate them
 DROP POLICY IF EXISTS "Users can read own profile" ON profiles;
@@ -133,6 +237,26 @@ DROP POLICY IF EXISTS "Users can insert own goals" ON goals;
 DROP POLICY IF EXISTS "Users can update own goals" ON goals;
 DROP POLICY IF EXISTS "Users can delete own goals" ON goals;
 
+DROP POLICY IF EXISTS "Users can read own run streams" ON run_streams;
+DROP POLICY IF EXISTS "Users can insert own run streams" ON run_streams;
+DROP POLICY IF EXISTS "Users can update own run streams" ON run_streams;
+DROP POLICY IF EXISTS "Users can delete own run streams" ON run_streams;
+
+DROP POLICY IF EXISTS "Users can read own import batches" ON import_batches;
+DROP POLICY IF EXISTS "Users can insert own import batches" ON import_batches;
+DROP POLICY IF EXISTS "Users can update own import batches" ON import_batches;
+DROP POLICY IF EXISTS "Users can delete own import batches" ON import_batches;
+
+DROP POLICY IF EXISTS "Users can read own csv mapping presets" ON csv_mapping_presets;
+DROP POLICY IF EXISTS "Users can insert own csv mapping presets" ON csv_mapping_presets;
+DROP POLICY IF EXISTS "Users can update own csv mapping presets" ON csv_mapping_presets;
+DROP POLICY IF EXISTS "Users can delete own csv mapping presets" ON csv_mapping_presets;
+
+DROP POLICY IF EXISTS "Users can read own run laps" ON run_laps;
+DROP POLICY IF EXISTS "Users can insert own run laps" ON run_laps;
+DROP POLICY IF EXISTS "Users can update own run laps" ON run_laps;
+DROP POLICY IF EXISTS "Users can delete own run laps" ON run_laps;
+
 -- Create RLS policies for profiles
 CREATE POLICY "Users can read own profile"
   ON profiles
@@ -199,6 +323,137 @@ CREATE POLICY "Users can delete own goals"
   TO authenticated
   USING (user_id = auth.uid());
 
+-- Create RLS policies for run streams
+CREATE POLICY "Users can read own run streams"
+  ON run_streams
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own run streams"
+  ON run_streams
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own run streams"
+  ON run_streams
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own run streams"
+  ON run_streams
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create RLS policies for import batches
+CREATE POLICY "Users can read own import batches"
+  ON import_batches
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own import batches"
+  ON import_batches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own import batches"
+  ON import_batches
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own import batches"
+  ON import_batches
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create RLS policies for csv mapping presets
+CREATE POLICY "Users can read own csv mapping presets"
+  ON csv_mapping_presets
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own csv mapping presets"
+  ON csv_mapping_presets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own csv mapping presets"
+  ON csv_mapping_presets
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own csv mapping presets"
+  ON csv_mapping_presets
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create RLS policies for run laps
+CREATE POLICY "Users can read own run laps"
+  ON run_laps
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own run laps"
+  ON run_laps
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own run laps"
+  ON run_laps
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own run laps"
+  ON run_laps
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Create storage bucket for original activity files, one folder per user
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('activity-files', 'activity-files', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can read own activity files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload own activity files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own activity files" ON storage.objects;
+
+CREATE POLICY "Users can read own activity files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'activity-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own activity files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'activity-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own activity files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'activity-files' AND (storage.foldername(name))[1] = auth.uid()::text);
+
 -- Drop existing triggers and recreate them
 DROP TRIGGER IF EXISTS update_profiles_updated_at ON profiles;
 DROP TRIGGER IF EXISTS update_runs_updated_at ON runs;
@@ -227,6 +482,55 @@ CREATE TRIGGER on_auth_user_created
   FOR EACH ROW
   EXECUTE FUNCTION handle_new_user();
 
+-- Create function for batched imports (runs, streams and laps in one transaction)
+DROP FUNCTION IF EXISTS import_runs(jsonb);
+DROP FUNCTION IF EXISTS import_runs(jsonb, uuid);
+CREATE OR REPLACE FUNCTION import_runs(items jsonb, for_user uuid DEFAULT NULL)
+RETURNS SETOF runs AS $$
+DECLARE
+  item jsonb;
+  new_run runs;
+  owner_id uuid;
+BEGIN
+  -- Only the service role (the import CLI) may import for another user
+  owner_id := CASE WHEN auth.role() = 'service_role' THEN for_user ELSE auth.uid() END;
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'import_runs needs a signed-in user, or for_user when called with the service role';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(items)
+  LOOP
+    INSERT INTO runs (
+      user_id, date, distance, duration, pace, route, notes, feeling_rating, source_file,
+      elevation_gain, elevation_loss, avg_heart_rate, max_heart_rate, moving_time, elapsed_time, start_time,
+      source_path
+    )
+    SELECT
+      owner_id, r.date, r.distance, r.duration, r.pace, r.route, r.notes, r.feeling_rating, r.source_file,
+      r.elevation_gain, r.elevation_loss, r.avg_heart_rate, r.max_heart_rate, r.moving_time, r.elapsed_time, r.start_time,
+      r.source_path
+    FROM jsonb_populate_record(NULL::runs, item->'run') r
+    RETURNING * INTO new_run;
+
+    IF jsonb_typeof(item->'stream') = 'array' AND jsonb_array_length(item->'stream') > 0 THEN
+      INSERT INTO run_streams (run_id, user_id, points, point_count)
+      VALUES (new_run.id, new_run.user_id, item->'stream', jsonb_array_length(item->'stream'));
+    END IF;
+
+    IF jsonb_typeof(item->'laps') = 'array' THEN
+      INSERT INTO run_laps (run_id, user_id, lap_index, distance, duration, pace, avg_heart_rate)
+      SELECT new_run.id, new_run.user_id, lap.ordinality - 1, l.distance, l.duration, l.pace, l.avg_heart_rate
+      FROM jsonb_array_elements(item->'laps') WITH ORDINALITY AS lap(value, ordinality),
+        jsonb_populate_record(NULL::run_laps, lap.value) l;
+    END IF;
+
+    RETURN NEXT new_run;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+COMMENT ON FUNCTION import_runs(jsonb, uuid) IS 'Insert a batch of imported runs with their streams and laps in one transaction';
+
 -- Drop existing views and recreate them
 DROP VIEW IF EXISTS user_run_stats;
 DROP VIEW IF EXISTS weekly_run_summary;